@@ -0,0 +1,277 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { pipeline } from 'stream/promises';
+import * as tar from 'tar';
+import * as unzipper from 'unzipper';
+
+export type ArchiveFormat = 'tar.gz' | 'tar' | 'zip';
+
+// Tar entry types we are willing to create; devices, FIFOs etc. are rejected
+const ALLOWED_TAR_TYPES = new Set(['File', 'OldFile', 'ContiguousFile', 'Directory', 'SymbolicLink', 'Link']);
+
+const S_IFMT = 0o170000;
+const S_IFLNK = 0o120000;
+// Same limit as Linux's MAXSYMLINKS
+const MAX_LINK_DEPTH = 40;
+
+/**
+ * Work out the archive format from its first bytes rather than its file name
+ */
+export async function detectArchiveFormat(archivePath: string): Promise<ArchiveFormat> {
+  const handle = await fs.promises.open(archivePath, 'r');
+  try {
+    const header = Buffer.alloc(512);
+    const { bytesRead } = await handle.read(header, 0, header.length, 0);
+
+    if (bytesRead >= 2 && header[0] === 0x1f && header[1] === 0x8b) {
+      return 'tar.gz';
+    }
+    // Local file header, or the end-of-central-directory record of an empty zip
+    if (bytesRead >= 4 && (header.readUInt32LE(0) === 0x04034b50 || header.readUInt32LE(0) === 0x06054b50)) {
+      return 'zip';
+    }
+    if (bytesRead >= 262 && header.toString('ascii', 257, 262) === 'ustar') {
+      return 'tar';
+    }
+  } finally {
+    await handle.close();
+  }
+
+  throw new Error('Unrecognized archive format - expected a .tar.gz, .tar or .zip bundle');
+}
+
+/**
+ * Extract a tar(.gz) or zip archive into destination. Every entry is checked
+ * before anything is written, so an archive with an entry that would land
+ * outside destination (../ paths, absolute paths, escaping links) is rejected whole.
+ * Links are checked again on disk afterwards; if one still escapes, this throws
+ * and the caller should discard destination.
+ */
+export async function extractArchive(archivePath: string, destination: string): Promise<ArchiveFormat> {
+  const format = await detectArchiveFormat(archivePath);
+  const root = path.resolve(destination);
+  await fs.promises.mkdir(root, { recursive: true });
+
+  if (format === 'zip') {
+    await extractZip(archivePath, root);
+  } else {
+    await extractTar(archivePath, root);
+  }
+
+  await checkExtractedLinks(root);
+  return format;
+}
+
+async function extractTar(archivePath: string, root: string): Promise<void> {
+  const problems: string[] = [];
+  const entries: { path: string; type: string; linkpath: string }[] = [];
+
+  await tar.t({
+    file: archivePath,
+    onReadEntry: (entry) => {
+      entries.push({ path: entry.path, type: entry.type, linkpath: entry.linkpath || '' });
+    }
+  });
+
+  // Links are checked against every symlink in the archive, not just earlier ones,
+  // since a later link can change where an earlier one ends up
+  const links = new Map<string, string>();
+  for (const entry of entries) {
+    try {
+      if (!ALLOWED_TAR_TYPES.has(entry.type)) {
+        throw new Error(`Archive entry ${entry.path} has unsupported type ${entry.type}`);
+      }
+      const entryPath = resolveEntryPath(root, entry.path);
+      if (entry.type === 'SymbolicLink') {
+        links.set(entryPath, entry.linkpath);
+      }
+    } catch (error) {
+      problems.push((error as Error).message);
+    }
+  }
+
+  for (const entry of problems.length === 0 ? entries : []) {
+    try {
+      checkEntryDirectory(root, entry.path, links);
+      if (entry.type === 'SymbolicLink') {
+        checkLinkTarget(root, entry.path, entry.linkpath, links);
+      } else if (entry.type === 'Link') {
+        // Hard link targets are relative to the archive root
+        resolveEntryPath(root, entry.linkpath);
+        resolveWithinArchive(root, root, entry.linkpath, links, entry.path);
+      }
+    } catch (error) {
+      problems.push((error as Error).message);
+    }
+  }
+
+  if (problems.length > 0) {
+    throw new Error(`Refusing to extract unsafe archive: ${problems[0]}`);
+  }
+
+  await tar.x({ file: archivePath, cwd: root, strict: true });
+}
+
+async function extractZip(archivePath: string, root: string): Promise<void> {
+  const directory = await unzipper.Open.file(archivePath);
+  const symlinks: { entryPath: string; target: string; linkPath: string }[] = [];
+
+  // Validate everything first
+  try {
+    for (const file of directory.files) {
+      const entryPath = resolveEntryPath(root, file.path);
+      if (isZipSymlink(file)) {
+        const target = (await file.buffer()).toString('utf8');
+        symlinks.push({ entryPath: file.path, target, linkPath: entryPath });
+      }
+    }
+
+    const links = new Map(symlinks.map(({ linkPath, target }) => [linkPath, target] as const));
+    for (const file of directory.files) {
+      checkEntryDirectory(root, file.path, links);
+    }
+    for (const { entryPath, target } of symlinks) {
+      checkLinkTarget(root, entryPath, target, links);
+    }
+  } catch (error) {
+    throw new Error(`Refusing to extract unsafe archive: ${(error as Error).message}`);
+  }
+
+  for (const file of directory.files) {
+    if (isZipSymlink(file)) continue;
+
+    const entryPath = resolveEntryPath(root, file.path);
+    if (file.type === 'Directory') {
+      await fs.promises.mkdir(entryPath, { recursive: true });
+      continue;
+    }
+
+    await fs.promises.mkdir(path.dirname(entryPath), { recursive: true });
+    const mode = (file.externalFileAttributes >>> 16) & 0o777;
+    await pipeline(file.stream(), fs.createWriteStream(entryPath, mode ? { mode } : {}));
+  }
+
+  // Links last, so no file above is ever written through one
+  for (const { target, linkPath } of symlinks) {
+    await fs.promises.mkdir(path.dirname(linkPath), { recursive: true });
+    await fs.promises.rm(linkPath, { force: true });
+    await fs.promises.symlink(target, linkPath);
+  }
+}
+
+function isZipSymlink(file: unzipper.File): boolean {
+  return ((file.externalFileAttributes >>> 16) & S_IFMT) === S_IFLNK;
+}
+
+/**
+ * Resolve an archive entry inside root, throwing for absolute or escaping paths
+ */
+function resolveEntryPath(root: string, entryPath: string): string {
+  const normalized = entryPath.replace(/\\/g, '/');
+  if (normalized.startsWith('/') || /^[a-zA-Z]:/.test(normalized)) {
+    throw new Error(`Archive entry ${entryPath} has an absolute path`);
+  }
+
+  const resolved = path.resolve(root, normalized);
+  if (!isInside(root, resolved)) {
+    throw new Error(`Archive entry ${entryPath} escapes the install directory`);
+  }
+  return resolved;
+}
+
+/**
+ * Symlink targets are relative to the link's own directory and must stay inside root,
+ * including when they pass through other links in the archive
+ */
+function checkLinkTarget(root: string, entryPath: string, target: string, links: Map<string, string>): void {
+  const normalized = target.replace(/\\/g, '/');
+  if (!normalized || normalized.startsWith('/') || /^[a-zA-Z]:/.test(normalized)) {
+    throw new Error(`Archive link ${entryPath} points to an absolute path`);
+  }
+
+  const linkDirectory = path.dirname(resolveEntryPath(root, entryPath));
+  resolveWithinArchive(root, linkDirectory, normalized, links, entryPath);
+}
+
+/**
+ * An entry's parent directories must not lead outside root through the archive's links
+ */
+function checkEntryDirectory(root: string, entryPath: string, links: Map<string, string>): void {
+  const parent = path.posix.dirname(entryPath.replace(/\\/g, '/').replace(/\/+$/, ''));
+  resolveWithinArchive(root, root, parent, links, entryPath);
+}
+
+/**
+ * Walk a relative path one segment at a time the way the filesystem will once
+ * the archive is extracted, following the archive's own symlinks, and throw as
+ * soon as the walk leaves root. Catches chains like d -> . plus p -> d/.. that
+ * look harmless as text.
+ */
+function resolveWithinArchive(
+  root: string,
+  fromDirectory: string,
+  relativePath: string,
+  links: Map<string, string>,
+  entryPath: string,
+  depth: number = 0
+): string {
+  if (depth > MAX_LINK_DEPTH) {
+    throw new Error(`Archive link ${entryPath} is part of a link loop`);
+  }
+
+  let current = fromDirectory;
+  for (const segment of relativePath.replace(/\\/g, '/').split('/')) {
+    if (segment === '' || segment === '.') continue;
+
+    current = segment === '..' ? path.dirname(current) : path.join(current, segment);
+    const linkTarget = links.get(current);
+    if (linkTarget !== undefined) {
+      if (linkTarget.startsWith('/') || /^[a-zA-Z]:/.test(linkTarget)) {
+        throw new Error(`Archive entry ${entryPath} goes through a link to an absolute path`);
+      }
+      current = resolveWithinArchive(root, path.dirname(current), linkTarget, links, entryPath, depth + 1);
+    }
+
+    if (!isInside(root, current)) {
+      throw new Error(`Archive entry ${entryPath} leads outside the install directory`);
+    }
+  }
+  return current;
+}
+
+/**
+ * After extraction, resolve every link on disk and fail if any ends up outside root
+ */
+async function checkExtractedLinks(root: string): Promise<void> {
+  const realRoot = await fs.promises.realpath(root);
+  const pending = [root];
+
+  while (pending.length > 0) {
+    const directory = pending.pop()!;
+    for (const entry of await fs.promises.readdir(directory, { withFileTypes: true })) {
+      const entryPath = path.join(directory, entry.name);
+      if (entry.isDirectory()) {
+        pending.push(entryPath);
+        continue;
+      }
+      if (!entry.isSymbolicLink()) continue;
+
+      let resolved: string;
+      try {
+        resolved = await fs.promises.realpath(entryPath);
+      } catch (error) {
+        // Dangling links can't reach anything; their targets were checked before extraction
+        if ((error as NodeJS.ErrnoException).code === 'ENOENT') continue;
+        throw error;
+      }
+      if (!isInside(realRoot, resolved)) {
+        throw new Error(`Extracted link ${path.relative(root, entryPath)} resolves outside the install directory`);
+      }
+    }
+  }
+}
+
+function isInside(root: string, candidate: string): boolean {
+  const relative = path.relative(root, candidate);
+  return relative === '' || (relative !== '..' && !relative.startsWith(`..${path.sep}`) && !path.isAbsolute(relative));
+}
@@ -1,16 +1,37 @@
-import { BrowserWindow, app } from 'electron';
+import { BrowserWindow, app, session } from 'electron';
 import { safeStorage } from 'electron';
 import * as path from 'path';
 import * as fs from 'fs';
+import { EventEmitter } from 'events';
+import { startLoopbackListener, createPkcePair, randomUrlSafe } from './oauth-loopback';
+import { launcherSettings } from './launcher-settings';
 
-const OAUTH_SERVER_URL = process.env.OAUTH_SERVER_URL || 'http://20.169.250.88:8000';
-const AUTH_FILE = path.join(app.getPath('userData'), 'auth.json');
+const DEFAULT_OAUTH_SERVER_URL = 'http://20.169.250.88:8000';
+const AUTH_PARTITION = 'persist:toji-auth';
+const LEGACY_AUTH_FILE = path.join(app.getPath('userData'), 'auth.json');
+const ACCOUNTS_DIR = path.join(app.getPath('userData'), 'accounts');
+const ACCOUNTS_INDEX = path.join(ACCOUNTS_DIR, 'index.json');
+
+// Refresh this long before the access token expires
+const REFRESH_MARGIN_MS = 60 * 1000;
+// setTimeout overflows above ~24.8 days
+const MAX_TIMER_MS = 2147483647;
+// Startup validation, refresh and revocation must not hang when the server is unreachable
+const SERVER_REQUEST_TIMEOUT_MS = 10000;
+// Wait this long before retrying a refresh that failed for reasons other than a rejected token
+const REFRESH_RETRY_MS = 30 * 1000;
+
+// 'rejected' only when the server turned the refresh token down; 'unavailable' for
+// network errors, timeouts and server errors, which are worth retrying
+type RefreshOutcome = 'refreshed' | 'rejected' | 'unavailable';
 
 export interface UserInfo {
   id: string;
   username: string;
   discriminator: string;
   avatar?: string;
+  // Set when the token has expired and the OAuth server couldn't be reached to refresh it
+  unverified?: boolean;
 }
 
 export interface AuthData {
@@ -19,60 +40,251 @@ export interface AuthData {
   expires_in?: number;
   user: UserInfo;
   timestamp: number;
+  // Set when the server rejected the refresh token; the account stays stored until the user logs in again
+  sessionExpired?: boolean;
+}
+
+export interface AccountSummary {
+  user: UserInfo;
+  active: boolean;
+  sessionExpired?: boolean;
+}
+
+/**
+ * OAuth server in effect: launcher settings, then OAUTH_SERVER_URL, then the built-in default
+ */
+export function resolveOAuthServerUrl(): string {
+  const url = launcherSettings.get().oauthServerUrl || process.env.OAUTH_SERVER_URL || DEFAULT_OAUTH_SERVER_URL;
+  return url.replace(/\/+$/, '');
 }
 
-class AuthManager {
+/**
+ * Check that tokens may be sent to this OAuth server. Plain HTTP is only
+ * allowed in development mode or for loopback addresses.
+ */
+export function checkOAuthEndpoint(url: string): string | undefined {
+  let parsed: URL;
+  try {
+    parsed = new URL(url);
+  } catch {
+    return 'OAuth server URL is not a valid URL';
+  }
+
+  if (parsed.protocol === 'https:') return undefined;
+  if (parsed.protocol !== 'http:') return 'OAuth server URL must use https';
+
+  const isLoopback = ['localhost', '127.0.0.1', '[::1]'].includes(parsed.hostname);
+  if (process.env.NODE_ENV === 'development' || isLoopback) return undefined;
+
+  return 'Refusing to send tokens over plain HTTP - configure an https:// OAuth server in launcher settings';
+}
+
+/**
+ * Normalize a certificate fingerprint to Electron's "sha256/<base64>" form
+ */
+function normalizeFingerprint(fingerprint: string): string {
+  const trimmed = fingerprint.trim();
+  const hex = trimmed.replace(/:/g, '');
+  if (/^[0-9a-fA-F]{64}$/.test(hex)) {
+    return `sha256/${Buffer.from(hex, 'hex').toString('base64')}`;
+  }
+  return trimmed.startsWith('sha256/') ? trimmed : `sha256/${trimmed}`;
+}
+
+/**
+ * Emits 'state-changed' with the current user (or null) whenever the session
+ * is refreshed or lapses outside of an explicit login/logout, and
+ * 'account-changed' with the active account id whenever it changes.
+ */
+class AuthManager extends EventEmitter {
   private authWindow: BrowserWindow | null = null;
-  private authData: AuthData | null = null;
+  private accounts: Map<string, AuthData> = new Map();
+  private activeAccountId: string | null = null;
+  private refreshTimer?: NodeJS.Timeout;
+  private refreshInFlight: { accountId: string; promise: Promise<RefreshOutcome> } | null = null;
+  // Accounts whose token expired while the server was unreachable; kept until a refresh settles it
+  private unverifiedAccounts: Set<string> = new Set();
 
   constructor() {
-    this.loadAuthData();
+    super();
+    this.loadAccounts();
+    this.scheduleRefresh();
   }
 
   /**
-   * Load saved auth data from encrypted storage
+   * Auth data of the active account
    */
-  private loadAuthData(): void {
+  private get authData(): AuthData | null {
+    if (!this.activeAccountId) return null;
+    return this.accounts.get(this.activeAccountId) || null;
+  }
+
+  private getAuthFile(accountId: string): string {
+    return path.join(ACCOUNTS_DIR, accountId, 'auth.json');
+  }
+
+  /**
+   * Load saved accounts from encrypted storage, migrating a legacy single auth.json
+   */
+  private loadAccounts(): void {
     try {
-      if (fs.existsSync(AUTH_FILE)) {
-        const encryptedData = fs.readFileSync(AUTH_FILE);
-        if (safeStorage.isEncryptionAvailable()) {
-          const decrypted = safeStorage.decryptString(encryptedData);
-          this.authData = JSON.parse(decrypted);
-          // Silent load - no console output needed
+      fs.mkdirSync(ACCOUNTS_DIR, { recursive: true });
+
+      if (fs.existsSync(LEGACY_AUTH_FILE)) {
+        const legacy = this.readAuthFile(LEGACY_AUTH_FILE);
+        if (legacy?.user?.id) {
+          fs.mkdirSync(path.join(ACCOUNTS_DIR, legacy.user.id), { recursive: true });
+          fs.renameSync(LEGACY_AUTH_FILE, this.getAuthFile(legacy.user.id));
+          this.writeIndex(legacy.user.id);
+        }
+      }
+
+      for (const entry of fs.readdirSync(ACCOUNTS_DIR, { withFileTypes: true })) {
+        if (!entry.isDirectory()) continue;
+        const authFile = this.getAuthFile(entry.name);
+        if (!fs.existsSync(authFile)) continue;
+
+        const data = this.readAuthFile(authFile);
+        if (data) {
+          this.accounts.set(entry.name, data);
+        }
+      }
+
+      if (fs.existsSync(ACCOUNTS_INDEX)) {
+        const index = JSON.parse(fs.readFileSync(ACCOUNTS_INDEX, 'utf8'));
+        if (index.activeAccountId && this.accounts.has(index.activeAccountId)) {
+          this.activeAccountId = index.activeAccountId;
         }
       }
     } catch (error) {
       console.error('Failed to load auth data:', error);
-      this.authData = null;
     }
   }
 
+  private readAuthFile(filePath: string): AuthData | null {
+    try {
+      const raw = fs.readFileSync(filePath);
+      if (safeStorage.isEncryptionAvailable()) {
+        try {
+          return JSON.parse(safeStorage.decryptString(raw));
+        } catch {
+          // Not encrypted - saved in dev mode, fall through to plain JSON
+        }
+      }
+      return JSON.parse(raw.toString('utf8'));
+    } catch (error) {
+      console.error('Failed to read auth file:', filePath, error);
+      return null;
+    }
+  }
+
+  private writeIndex(activeAccountId: string | null): void {
+    fs.writeFileSync(ACCOUNTS_INDEX, JSON.stringify({ activeAccountId }, null, 2));
+  }
+
   /**
-   * Save auth data to encrypted storage
+   * Save auth data to encrypted storage and (by default) make its account the active one
    */
-  private saveAuthData(data: AuthData): void {
+  private saveAuthData(data: AuthData, activate: boolean = true): void {
     try {
+      const accountId = data.user.id;
+      const authFile = this.getAuthFile(accountId);
+      fs.mkdirSync(path.dirname(authFile), { recursive: true });
+
       if (safeStorage.isEncryptionAvailable()) {
         const encrypted = safeStorage.encryptString(JSON.stringify(data));
-        fs.writeFileSync(AUTH_FILE, encrypted);
+        fs.writeFileSync(authFile, encrypted);
         // Silent save - no console output needed
       } else {
         // Fallback to plain text if encryption not available (dev mode)
-        fs.writeFileSync(AUTH_FILE, JSON.stringify(data, null, 2));
+        fs.writeFileSync(authFile, JSON.stringify(data, null, 2));
         console.warn('Saved auth data without encryption (dev mode)');
       }
-      this.authData = data;
+      this.accounts.set(accountId, data);
+      if (activate) {
+        this.setActiveAccount(accountId);
+      }
     } catch (error) {
       console.error('Failed to save auth data:', error);
     }
   }
 
+  private setActiveAccount(accountId: string | null): void {
+    const changed = accountId !== this.activeAccountId;
+    this.activeAccountId = accountId;
+    this.writeIndex(accountId);
+    this.scheduleRefresh();
+    if (changed) {
+      this.emit('account-changed', accountId);
+    }
+  }
+
+  /**
+   * Stored accounts, with the active one flagged
+   */
+  listAccounts(): AccountSummary[] {
+    return Array.from(this.accounts.entries()).map(([id, data]) => ({
+      user: data.user,
+      active: id === this.activeAccountId,
+      sessionExpired: !!data.sessionExpired
+    }));
+  }
+
+  /**
+   * Make another stored account the active one and validate it with the server
+   */
+  async switchAccount(accountId: string): Promise<UserInfo | null> {
+    if (!this.accounts.has(accountId)) {
+      throw new Error(`Unknown account: ${accountId}`);
+    }
+    this.setActiveAccount(accountId);
+    return await this.validateSession();
+  }
+
+  /**
+   * Forget an account entirely, including its bot configuration directory
+   */
+  removeAccount(accountId: string): void {
+    this.removeCredentials(accountId, true);
+
+    try {
+      fs.rmSync(path.join(ACCOUNTS_DIR, accountId), { recursive: true, force: true });
+    } catch (error) {
+      console.error('Failed to delete account directory:', error);
+    }
+  }
+
+  /**
+   * Per-account directory for files such as the bot configuration
+   */
+  getAccountDirectory(): string | null {
+    if (!this.activeAccountId) return null;
+    return path.join(ACCOUNTS_DIR, this.activeAccountId);
+  }
+
   /**
    * Start OAuth flow with Discord
+   *
+   * Uses the authorization code flow with PKCE. The OAuth server redirects to a
+   * loopback listener owned by the main process, which checks the state nonce
+   * and exchanges the code for tokens directly - nothing is read from page content.
    */
   async login(): Promise<void> {
-    return new Promise((resolve, reject) => {
+    // Refuse an insecure endpoint before opening anything that would need closing
+    const serverUrl = this.getOAuthServerUrl();
+    const authSession = this.getAuthSession(serverUrl);
+
+    const state = randomUrlSafe();
+    const pkce = createPkcePair();
+    const listener = await startLoopbackListener(state);
+
+    try {
+      const authUrl = new URL(`${serverUrl}/auth/discord`);
+      authUrl.searchParams.set('redirect_uri', listener.redirectUri);
+      authUrl.searchParams.set('state', state);
+      authUrl.searchParams.set('code_challenge', pkce.challenge);
+      authUrl.searchParams.set('code_challenge_method', 'S256');
+
       // Create auth window
       this.authWindow = new BrowserWindow({
         width: 500,
@@ -81,148 +293,441 @@ class AuthManager {
         webPreferences: {
           nodeIntegration: false,
           contextIsolation: true,
+          session: authSession
         }
       });
 
-      // Load OAuth URL
-      const authUrl = `${OAUTH_SERVER_URL}/auth/discord`;
-      
       // Only open DevTools in development mode
       if (process.env.NODE_ENV === 'development') {
-        console.log('Loading OAuth URL:', authUrl);
+        console.log('Loading OAuth URL:', authUrl.toString());
         this.authWindow.webContents.openDevTools();
       }
-      
+
       // Add error handlers
       this.authWindow.webContents.on('did-fail-load', (event, errorCode, errorDescription, validatedURL) => {
         console.error('Failed to load:', errorDescription, 'URL:', validatedURL);
       });
-      
-      this.authWindow.webContents.on('did-finish-load', () => {
-        if (process.env.NODE_ENV === 'development') {
-          const currentURL = this.authWindow!.webContents.getURL();
-          console.log('Page loaded successfully:', currentURL);
-        }
-      });
-      
-      this.authWindow.loadURL(authUrl);
 
-      // Handle navigation to detect callback
-      this.authWindow.webContents.on('did-navigate', async (event, url) => {
-        if (process.env.NODE_ENV === 'development') {
-          console.log('Navigated to:', url);
-        }
-        
-        // Check if we're on the callback/success page
-        if (url.includes('/auth/callback')) {
-          try {
-            // Wait a moment for the page to fully load
-            await new Promise(resolve => setTimeout(resolve, 500));
-            
-            // Extract auth data from the page with polling mechanism
-            // The server sets window.TOJI_AUTH_DATA via script tag which takes time to execute
-            const authData = await this.authWindow!.webContents.executeJavaScript(`
-              new Promise((resolve) => {
-                let attempts = 0;
-                const checkForData = () => {
-                  // Check for window.TOJI_AUTH_DATA first
-                  if (window.TOJI_AUTH_DATA) {
-                    resolve(window.TOJI_AUTH_DATA);
-                  } 
-                  // Fallback to localStorage
-                  else if (localStorage.getItem('toji-auth')) {
-                    try {
-                      resolve(JSON.parse(localStorage.getItem('toji-auth')));
-                    } catch (e) {
-                      // Keep error logging as it's important for debugging
-                      console.error('Failed to parse localStorage data:', e);
-                    }
-                  }
-                  // Keep trying for 5 seconds (50 attempts * 100ms)
-                  else if (++attempts > 50) {
-                    resolve(null);
-                  } 
-                  // Try again in 100ms
-                  else {
-                    setTimeout(checkForData, 100);
-                  }
-                };
-                checkForData();
-              })
-            `);
-            
-            if (authData && authData.access_token) {
-              // Add timestamp for expiry tracking
-              authData.timestamp = Date.now();
-              
-              // Save auth data
-              this.saveAuthData(authData);
-              
-              // Close auth window
-              if (this.authWindow) {
-                this.authWindow.close();
-                this.authWindow = null;
-              }
-              
-              resolve();
-            } else {
-              throw new Error('No auth data found on success page');
-            }
-          } catch (error) {
-            console.error('Failed to extract auth data:', error);
-            reject(error);
-          }
-        }
-      });
-
-      // Handle window closed
+      // If the user closes the window, stop waiting for the callback
       this.authWindow.on('closed', () => {
         this.authWindow = null;
-        // If we get here without resolving, user closed the window
-        reject(new Error('Authentication cancelled by user'));
+        listener.close();
       });
+
+      this.authWindow.loadURL(authUrl.toString());
+
+      const code = await listener.waitForCode();
+      const authData = await this.exchangeCode(code, pkce.verifier, listener.redirectUri);
+
+      // Add timestamp for expiry tracking
+      authData.timestamp = Date.now();
+      this.saveAuthData(authData);
+    } catch (error) {
+      console.error('Login failed:', error);
+      if ((error as Error).message === 'Login callback listener closed') {
+        throw new Error('Authentication cancelled by user');
+      }
+      throw error;
+    } finally {
+      // Stops the callback listener and its timeout on every path; a no-op once it has a code
+      listener.close();
+
+      // Close auth window
+      if (this.authWindow && !this.authWindow.isDestroyed()) {
+        this.authWindow.close();
+      }
+      this.authWindow = null;
+    }
+  }
+
+  /**
+   * Resolve the OAuth server and refuse insecure endpoints
+   */
+  private getOAuthServerUrl(): string {
+    const serverUrl = resolveOAuthServerUrl();
+    const problem = checkOAuthEndpoint(serverUrl);
+    if (problem) {
+      throw new Error(problem);
+    }
+    return serverUrl;
+  }
+
+  /**
+   * Session shared by the auth window and token requests. When a certificate
+   * fingerprint is configured, the OAuth server must present exactly that certificate.
+   */
+  private getAuthSession(serverUrl: string): Electron.Session {
+    const authSession = session.fromPartition(AUTH_PARTITION);
+    const pinned = launcherSettings.get().oauthCertFingerprint;
+
+    if (!pinned) {
+      authSession.setCertificateVerifyProc(null);
+      return authSession;
+    }
+
+    const oauthHost = new URL(serverUrl).hostname;
+    const expected = normalizeFingerprint(pinned);
+
+    authSession.setCertificateVerifyProc((request, callback) => {
+      if (request.hostname !== oauthHost) {
+        // Other hosts (e.g. discord.com) use Chromium's normal verification
+        callback(-3);
+        return;
+      }
+
+      if (request.certificate.fingerprint === expected) {
+        callback(0);
+      } else {
+        console.error(`Certificate pin mismatch for ${oauthHost}: got ${request.certificate.fingerprint}`);
+        callback(-2);
+      }
     });
+
+    return authSession;
   }
 
   /**
-   * Logout and clear auth data
+   * Exchange an authorization code for tokens using the PKCE verifier
+   */
+  private async exchangeCode(code: string, codeVerifier: string, redirectUri: string): Promise<AuthData> {
+    const serverUrl = this.getOAuthServerUrl();
+    const response = await this.getAuthSession(serverUrl).fetch(`${serverUrl}/auth/token`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({
+        grant_type: 'authorization_code',
+        code,
+        code_verifier: codeVerifier,
+        redirect_uri: redirectUri
+      })
+    });
+
+    if (!response.ok) {
+      throw new Error(`Token exchange failed with status ${response.status}`);
+    }
+
+    const authData = await response.json();
+    if (!authData?.access_token || !authData.user) {
+      throw new Error('Token response did not include an access token and user');
+    }
+    return authData;
+  }
+
+  /**
+   * Logout the active account and clear its auth data; the next stored
+   * account (if any) becomes active
    */
   logout(): void {
-    this.authData = null;
+    if (!this.activeAccountId) {
+      this.clearRefreshTimer();
+      return;
+    }
+    this.removeCredentials(this.activeAccountId, true);
+  }
+
+  /**
+   * Delete an account's stored tokens, optionally revoking them on the server first
+   */
+  private removeCredentials(accountId: string, revoke: boolean): void {
+    const data = this.accounts.get(accountId);
+    if (data && revoke) {
+      // Fire and forget - logging out must work offline
+      this.revokeTokens(data);
+    }
+
+    this.accounts.delete(accountId);
+    this.unverifiedAccounts.delete(accountId);
     try {
-      if (fs.existsSync(AUTH_FILE)) {
-        fs.unlinkSync(AUTH_FILE);
+      const authFile = this.getAuthFile(accountId);
+      if (fs.existsSync(authFile)) {
+        fs.unlinkSync(authFile);
       }
     } catch (error) {
       console.error('Failed to delete auth file:', error);
     }
+
+    if (accountId === this.activeAccountId) {
+      this.clearRefreshTimer();
+      const nextAccountId = this.accounts.keys().next().value ?? null;
+      this.setActiveAccount(nextAccountId);
+    }
+  }
+
+  /**
+   * Ask the OAuth server to invalidate an account's tokens
+   */
+  private async revokeTokens(data: AuthData): Promise<void> {
+    try {
+      const serverUrl = this.getOAuthServerUrl();
+      const response = await this.getAuthSession(serverUrl).fetch(`${serverUrl}/auth/revoke`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ token: data.access_token, refresh_token: data.refresh_token }),
+        signal: AbortSignal.timeout(SERVER_REQUEST_TIMEOUT_MS)
+      });
+      if (!response.ok) {
+        throw new Error(`Revoke failed with status ${response.status}`);
+      }
+    } catch (error) {
+      console.warn('Could not revoke token on server (it will expire on its own):', (error as Error).message);
+    }
+  }
+
+  /**
+   * Check the stored session with the OAuth server and pick up profile changes.
+   * If the server can't be reached the stored session is trusted as-is, and
+   * an expired one is kept as unverified until a refresh gets through.
+   */
+  async validateSession(): Promise<UserInfo | null> {
+    if (!await this.ensureValidSession()) return this.getUser();
+    const accountId = this.activeAccountId!;
+
+    try {
+      let response = await this.fetchProfile();
+      if (response.status === 401) {
+        // Revoked or expired server-side - one refresh attempt before giving up
+        if (await this.renewSession() !== 'refreshed') {
+          return this.getUser();
+        }
+        response = await this.fetchProfile();
+      }
+
+      if (response.status === 401) {
+        this.expireSession();
+        return this.getUser();
+      }
+      if (!response.ok) {
+        throw new Error(`Profile request failed with status ${response.status}`);
+      }
+
+      const profile: Partial<UserInfo> = await response.json();
+      const current = this.authData;
+      if (!current || this.activeAccountId !== accountId) return this.getUser();
+
+      const updatedUser: UserInfo = { ...current.user, ...profile, id: current.user.id };
+      const changed = (['username', 'discriminator', 'avatar'] as const)
+        .some(field => updatedUser[field] !== current.user[field]);
+
+      if (changed) {
+        this.saveAuthData({ ...current, user: updatedUser }, false);
+        this.emit('state-changed', this.getUser());
+      }
+    } catch (error) {
+      console.warn('Could not validate session with server, using stored session:', (error as Error).message);
+    }
+
+    return this.getUser();
+  }
+
+  private async fetchProfile(): Promise<Response> {
+    const serverUrl = this.getOAuthServerUrl();
+    return this.getAuthSession(serverUrl).fetch(`${serverUrl}/auth/me`, {
+      headers: { Authorization: `Bearer ${this.authData?.access_token}` },
+      signal: AbortSignal.timeout(SERVER_REQUEST_TIMEOUT_MS)
+    });
   }
 
   /**
-   * Get current user info
+   * Get current user info: null once the session has expired, unless the
+   * server couldn't be reached to refresh it (then flagged unverified)
    */
   getUser(): UserInfo | null {
-    return this.authData?.user || null;
+    const data = this.authData;
+    if (!data) return null;
+    if (this.isAuthenticated()) return data.user;
+    if (this.unverifiedAccounts.has(data.user.id)) return { ...data.user, unverified: true };
+    return null;
   }
 
   /**
    * Check if user is authenticated
    */
   isAuthenticated(): boolean {
-    if (!this.authData) return false;
+    if (!this.authData || this.authData.sessionExpired) return false;
     
     // Check if token is expired (if we have expiry info)
-    if (this.authData.expires_in && this.authData.timestamp) {
-      const expiryTime = this.authData.timestamp + (this.authData.expires_in * 1000);
-      if (Date.now() > expiryTime) {
-        // Token expired - will return false
-        return false;
-      }
+    const expiryTime = this.getExpiryTime();
+    if (expiryTime !== null && Date.now() > expiryTime) {
+      // Token expired - will return false
+      return false;
     }
     
     return true;
   }
 
+  /**
+   * Make sure the stored session is usable, refreshing an expired token if possible
+   */
+  async ensureValidSession(): Promise<boolean> {
+    if (!this.authData || this.authData.sessionExpired) return false;
+    if (this.isAuthenticated()) return true;
+
+    return await this.renewSession() === 'refreshed';
+  }
+
+  /**
+   * Refresh the active session and act on the outcome: a rejected token ends
+   * the session, anything else keeps it and tries again later
+   */
+  private async renewSession(): Promise<RefreshOutcome> {
+    const accountId = this.activeAccountId;
+    const outcome = await this.refreshSession();
+    if (accountId !== this.activeAccountId) return outcome;
+
+    if (outcome === 'rejected') {
+      this.expireSession();
+    } else if (outcome === 'unavailable') {
+      this.scheduleRetry();
+      if (accountId && !this.isAuthenticated() && !this.unverifiedAccounts.has(accountId)) {
+        this.unverifiedAccounts.add(accountId);
+        this.emit('state-changed', this.getUser());
+      }
+    }
+    return outcome;
+  }
+
+  /**
+   * Exchange the refresh token for a new access token
+   */
+  async refreshSession(): Promise<RefreshOutcome> {
+    const accountId = this.activeAccountId;
+    if (!accountId) return 'rejected';
+
+    // Collapse concurrent refreshes of one account (timer + get-user racing) into one request
+    if (this.refreshInFlight?.accountId !== accountId) {
+      const promise = this.requestRefresh().finally(() => {
+        if (this.refreshInFlight?.promise === promise) {
+          this.refreshInFlight = null;
+        }
+      });
+      this.refreshInFlight = { accountId, promise };
+    }
+    return this.refreshInFlight.promise;
+  }
+
+  private async requestRefresh(): Promise<RefreshOutcome> {
+    const current = this.authData;
+    if (!current?.refresh_token || current.sessionExpired) return 'rejected';
+
+    let response: Response;
+    try {
+      const serverUrl = this.getOAuthServerUrl();
+      response = await this.getAuthSession(serverUrl).fetch(`${serverUrl}/auth/refresh`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ refresh_token: current.refresh_token }),
+        signal: AbortSignal.timeout(SERVER_REQUEST_TIMEOUT_MS)
+      });
+    } catch (error) {
+      console.warn('Could not reach the OAuth server to refresh the session:', (error as Error).message);
+      return 'unavailable';
+    }
+
+    // invalid_grant - the refresh token is revoked or expired and retrying won't help
+    if (response.status === 400 || response.status === 401) {
+      console.error(`OAuth server rejected the refresh token with status ${response.status}`);
+      return 'rejected';
+    }
+
+    try {
+      if (!response.ok) {
+        throw new Error(`Refresh failed with status ${response.status}`);
+      }
+
+      const refreshed = await response.json();
+      if (!refreshed?.access_token) {
+        throw new Error('Refresh response did not include an access token');
+      }
+
+      // The user may have switched accounts while the request was in flight
+      const stillActive = this.authData === current;
+      this.unverifiedAccounts.delete(current.user.id);
+      this.saveAuthData({
+        access_token: refreshed.access_token,
+        // Servers that don't rotate refresh tokens omit it from the response
+        refresh_token: refreshed.refresh_token || current.refresh_token,
+        expires_in: refreshed.expires_in,
+        user: { ...current.user, ...refreshed.user, id: current.user.id },
+        timestamp: Date.now()
+      }, stillActive);
+      if (stillActive) {
+        this.emit('state-changed', this.getUser());
+      }
+      return 'refreshed';
+    } catch (error) {
+      console.error('Failed to refresh auth token:', error);
+      return 'unavailable';
+    }
+  }
+
+  /**
+   * Mark a session that can no longer be refreshed as needing a new login.
+   * The account stays stored and active so no other identity takes over;
+   * only logout or removal delete its credentials.
+   */
+  private expireSession(): void {
+    const current = this.authData;
+    if (current && !current.sessionExpired) {
+      this.clearRefreshTimer();
+      this.unverifiedAccounts.delete(current.user.id);
+      this.saveAuthData({ ...current, sessionExpired: true }, false);
+      this.emit('state-changed', this.getUser());
+    }
+  }
+
+  private getExpiryTime(): number | null {
+    if (!this.authData?.expires_in || !this.authData.timestamp) return null;
+    return this.authData.timestamp + (this.authData.expires_in * 1000);
+  }
+
+  /**
+   * Refresh proactively shortly before expiry. Without a refresh token the
+   * session lapses at the actual expiry time.
+   */
+  private scheduleRefresh(): void {
+    this.clearRefreshTimer();
+
+    const expiryTime = this.getExpiryTime();
+    if (expiryTime === null || this.authData?.sessionExpired) return;
+
+    const canRefresh = !!this.authData?.refresh_token;
+    const fireAt = canRefresh ? expiryTime - REFRESH_MARGIN_MS : expiryTime;
+    const delay = Math.min(Math.max(fireAt - Date.now(), 0), MAX_TIMER_MS);
+
+    this.refreshTimer = setTimeout(async () => {
+      this.refreshTimer = undefined;
+      if (Date.now() < fireAt) {
+        // Timer was clamped - reschedule for the remaining time
+        this.scheduleRefresh();
+        return;
+      }
+
+      if (canRefresh) {
+        await this.renewSession();
+      } else {
+        this.expireSession();
+      }
+    }, delay);
+  }
+
+  /**
+   * Try the refresh again after a failure that wasn't the server rejecting the token
+   */
+  private scheduleRetry(): void {
+    this.clearRefreshTimer();
+    this.refreshTimer = setTimeout(() => {
+      this.refreshTimer = undefined;
+      this.renewSession();
+    }, REFRESH_RETRY_MS);
+  }
+
+  private clearRefreshTimer(): void {
+    if (this.refreshTimer) {
+      clearTimeout(this.refreshTimer);
+      this.refreshTimer = undefined;
+    }
+  }
+
   /**
    * Get access token (for future API calls if needed)
    */
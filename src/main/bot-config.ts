@@ -0,0 +1,267 @@
+import { BrowserWindow, ipcMain, app, safeStorage } from 'electron';
+import * as path from 'path';
+import * as fs from 'fs';
+import * as os from 'os';
+import { authManager } from './auth';
+
+const CONFIG_FILE_NAME = 'bot-config.json';
+
+export interface BotConfig {
+  discordToken: string;
+  whisperUrl: string;
+  piperUrl: string;
+  workspacePath: string;
+}
+
+/**
+ * Config as seen by the renderer - the Discord token never leaves the main process
+ */
+export interface BotConfigView {
+  hasDiscordToken: boolean;
+  whisperUrl: string;
+  piperUrl: string;
+  workspacePath: string;
+}
+
+/**
+ * Config update from the renderer - an empty discordToken keeps the stored one
+ */
+export type BotConfigUpdate = Partial<BotConfig>;
+
+export interface BotConfigValidation {
+  valid: boolean;
+  errors: Partial<Record<keyof BotConfig, string>>;
+}
+
+interface StoredBotConfig {
+  discordToken?: string;       // base64 safeStorage ciphertext, or plain text in dev mode
+  tokenEncrypted?: boolean;
+  whisperUrl: string;
+  piperUrl: string;
+  workspacePath: string;
+}
+
+export const DEFAULT_BOT_CONFIG: BotConfig = {
+  discordToken: '',
+  whisperUrl: 'http://localhost:9000',
+  piperUrl: 'http://localhost:5000',
+  workspacePath: path.join(os.homedir(), 'toji-workspace')
+};
+
+// Discord bot tokens are three base64url segments separated by dots
+const DISCORD_TOKEN_PATTERN = /^[A-Za-z0-9_-]{20,}\.[A-Za-z0-9_-]{4,}\.[A-Za-z0-9_-]{20,}$/;
+
+/**
+ * Bot Configuration Store
+ *
+ * Persists the bot's Discord token (encrypted with safeStorage), speech
+ * service URLs and workspace path, and exposes them to the renderer.
+ * Each account has its own config file in its account directory; the store
+ * reloads whenever the active account changes.
+ */
+export class BotConfigStore {
+  private mainWindow: BrowserWindow;
+  private configFile: string;
+  private config: BotConfig;
+
+  constructor(mainWindow: BrowserWindow) {
+    this.mainWindow = mainWindow;
+    this.configFile = this.resolveConfigFile();
+    this.config = this.loadConfig();
+    this.setupIpcHandlers();
+
+    authManager.on('account-changed', () => {
+      this.configFile = this.resolveConfigFile();
+      this.config = this.loadConfig();
+      if (!this.mainWindow.isDestroyed()) {
+        this.mainWindow.webContents.send('bot-config:changed', this.getConfigView());
+      }
+    });
+  }
+
+  /**
+   * Config file for the active account, adopting the pre-multi-account file on first use
+   */
+  private resolveConfigFile(): string {
+    const legacyFile = path.join(app.getPath('userData'), CONFIG_FILE_NAME);
+    const accountDirectory = authManager.getAccountDirectory();
+    if (!accountDirectory) {
+      return legacyFile;
+    }
+
+    const accountFile = path.join(accountDirectory, CONFIG_FILE_NAME);
+    try {
+      if (!fs.existsSync(accountFile) && fs.existsSync(legacyFile)) {
+        fs.mkdirSync(accountDirectory, { recursive: true });
+        fs.renameSync(legacyFile, accountFile);
+      }
+    } catch (error) {
+      console.error('Failed to migrate bot config:', error);
+    }
+    return accountFile;
+  }
+
+  private setupIpcHandlers(): void {
+    ipcMain.handle('bot-config:get', async () => {
+      return this.getConfigView();
+    });
+
+    ipcMain.handle('bot-config:save', async (_, update: BotConfigUpdate) => {
+      return this.saveConfig(update);
+    });
+
+    ipcMain.handle('bot-config:validate', async (_, update: BotConfigUpdate) => {
+      return this.validate(this.merge(update));
+    });
+  }
+
+  /**
+   * Load config from disk, falling back to defaults
+   */
+  private loadConfig(): BotConfig {
+    try {
+      if (fs.existsSync(this.configFile)) {
+        const stored: StoredBotConfig = JSON.parse(fs.readFileSync(this.configFile, 'utf8'));
+        let discordToken = stored.discordToken || '';
+
+        if (discordToken && stored.tokenEncrypted) {
+          discordToken = safeStorage.isEncryptionAvailable()
+            ? safeStorage.decryptString(Buffer.from(discordToken, 'base64'))
+            : '';
+        }
+
+        return {
+          discordToken,
+          whisperUrl: stored.whisperUrl ?? DEFAULT_BOT_CONFIG.whisperUrl,
+          piperUrl: stored.piperUrl ?? DEFAULT_BOT_CONFIG.piperUrl,
+          workspacePath: stored.workspacePath ?? DEFAULT_BOT_CONFIG.workspacePath
+        };
+      }
+    } catch (error) {
+      console.error('Failed to load bot config:', error);
+    }
+
+    return { ...DEFAULT_BOT_CONFIG };
+  }
+
+  private writeConfig(config: BotConfig): void {
+    const stored: StoredBotConfig = {
+      whisperUrl: config.whisperUrl,
+      piperUrl: config.piperUrl,
+      workspacePath: config.workspacePath
+    };
+
+    if (config.discordToken) {
+      if (safeStorage.isEncryptionAvailable()) {
+        stored.discordToken = safeStorage.encryptString(config.discordToken).toString('base64');
+        stored.tokenEncrypted = true;
+      } else {
+        // Fallback to plain text if encryption not available (dev mode)
+        stored.discordToken = config.discordToken;
+        stored.tokenEncrypted = false;
+        console.warn('Saved bot token without encryption (dev mode)');
+      }
+    }
+
+    fs.mkdirSync(path.dirname(this.configFile), { recursive: true });
+    fs.writeFileSync(this.configFile, JSON.stringify(stored, null, 2), { mode: 0o600 });
+  }
+
+  private merge(update: BotConfigUpdate = {}): BotConfig {
+    return {
+      discordToken: update.discordToken?.trim() || this.config.discordToken,
+      whisperUrl: update.whisperUrl?.trim() ?? this.config.whisperUrl,
+      piperUrl: update.piperUrl?.trim() ?? this.config.piperUrl,
+      workspacePath: update.workspacePath?.trim() ?? this.config.workspacePath
+    };
+  }
+
+  /**
+   * Validate and persist a config update
+   */
+  saveConfig(update: BotConfigUpdate): { success: boolean; config?: BotConfigView; validation: BotConfigValidation; error?: string } {
+    const merged = this.merge(update);
+    const validation = this.validate(merged);
+    if (!validation.valid) {
+      return { success: false, validation };
+    }
+
+    try {
+      fs.mkdirSync(merged.workspacePath, { recursive: true });
+      this.writeConfig(merged);
+      this.config = merged;
+      this.mainWindow.webContents.send('bot-config:changed', this.getConfigView());
+      return { success: true, config: this.getConfigView(), validation };
+    } catch (error) {
+      console.error('Failed to save bot config:', error);
+      return { success: false, validation, error: (error as Error).message };
+    }
+  }
+
+  validate(config: BotConfig): BotConfigValidation {
+    const errors: BotConfigValidation['errors'] = {};
+
+    if (!config.discordToken) {
+      errors.discordToken = 'Discord bot token is required';
+    } else if (!DISCORD_TOKEN_PATTERN.test(config.discordToken)) {
+      errors.discordToken = 'This does not look like a Discord bot token';
+    }
+
+    for (const field of ['whisperUrl', 'piperUrl'] as const) {
+      const error = validateServiceUrl(config[field]);
+      if (error) {
+        errors[field] = error;
+      }
+    }
+
+    if (!config.workspacePath) {
+      errors.workspacePath = 'Workspace path is required';
+    } else if (!path.isAbsolute(config.workspacePath)) {
+      errors.workspacePath = 'Workspace path must be absolute';
+    } else if (fs.existsSync(config.workspacePath) && !fs.statSync(config.workspacePath).isDirectory()) {
+      errors.workspacePath = 'Workspace path exists but is not a directory';
+    }
+
+    return { valid: Object.keys(errors).length === 0, errors };
+  }
+
+  getConfig(): BotConfig {
+    return { ...this.config };
+  }
+
+  getConfigView(): BotConfigView {
+    return {
+      hasDiscordToken: !!this.config.discordToken,
+      whisperUrl: this.config.whisperUrl,
+      piperUrl: this.config.piperUrl,
+      workspacePath: this.config.workspacePath
+    };
+  }
+
+  /**
+   * Environment variables handed to the bot process
+   */
+  toEnvironment(): Record<string, string> {
+    return {
+      DISCORD_TOKEN: this.config.discordToken,
+      WHISPER_URL: this.config.whisperUrl,
+      PIPER_URL: this.config.piperUrl,
+      TOJI_WORKSPACE: this.config.workspacePath
+    };
+  }
+}
+
+function validateServiceUrl(value: string): string | undefined {
+  if (!value) {
+    return 'Service URL is required';
+  }
+  try {
+    const url = new URL(value);
+    if (url.protocol !== 'http:' && url.protocol !== 'https:') {
+      return 'Service URL must use http or https';
+    }
+  } catch {
+    return 'Service URL is not a valid URL';
+  }
+  return undefined;
+}
@@ -1,19 +1,26 @@
-import { BrowserWindow, ipcMain } from 'electron';
-import * as https from 'https';
+import { app, BrowserWindow, ipcMain } from 'electron';
 import * as fs from 'fs';
 import * as path from 'path';
 import * as os from 'os';
 import { promisify } from 'util';
-import { createWriteStream } from 'fs';
-import { pipeline } from 'stream';
-import * as tar from 'tar';
+import { execFile } from 'child_process';
+import { pipeline } from 'stream/promises';
+import { ReleaseResolver, DEFAULT_RELEASES_URL, checkLauncherCompatibility } from './release-resolver';
+import { openRequest } from './download-client';
+import { extractArchive } from './archive-extractor';
+import { launcherSettings } from './launcher-settings';
+import { getPlatformService } from './platform/platform-service';
+import { verifyChecksum, verifySignature, getSigningPublicKey } from './bundle-verifier';
+import { readBundleManifest, hasAllManifestFiles, verifyBundle } from './bundle-manifest';
+import { compareVersions } from './version-utils';
+import { InstalledBotVersion, BundleVerification } from '../types';
 
-const pipelineAsync = promisify(pipeline);
 const mkdirAsync = promisify(fs.mkdir);
 const accessAsync = promisify(fs.access);
+const execFileAsync = promisify(execFile);
 
 export interface DownloadProgress {
-  stage: 'checking' | 'downloading' | 'extracting' | 'verifying' | 'complete' | 'error';
+  stage: 'checking' | 'downloading' | 'extracting' | 'verifying' | 'complete' | 'cancelled' | 'error';
   progress: number; // 0-100
   totalBytes?: number;
   downloadedBytes?: number;
@@ -25,17 +32,68 @@ export interface BotRelease {
   version: string;
   downloadUrl: string;
   size: number;
-  checksum?: string;
+  checksum?: string;   // hex SHA-256 of the archive
+  signature?: string;  // base64 detached Ed25519 signature of the archive
+  notes?: string;
+  minLauncherVersion?: string;
+  maxLauncherVersion?: string;
 }
 
+interface CurrentVersionPointer {
+  version: string;
+  activatedAt: number;
+}
+
+interface PartialDownloadMeta {
+  url: string;
+  etag?: string;
+  lastModified?: string;
+}
+
+const BOT_EXECUTABLE = 'toji-bot';
+const LEGACY_VERSION = 'legacy';
+
+const DOWNLOADS_DIR = 'downloads';
+const STAGING_DIR = '.staging';
+const TRASH_DIR = '.trash';
+// Partial downloads older than this are discarded rather than resumed
+const PARTIAL_DOWNLOAD_MAX_AGE_MS = 7 * 24 * 60 * 60 * 1000;
+
+const MAX_DOWNLOAD_ATTEMPTS = 5;
+const RETRY_BASE_DELAY_MS = 1000;
+const RETRY_MAX_DELAY_MS = 30 * 1000;
+// Abort and retry when no bytes arrive for this long
+const STALL_TIMEOUT_MS = 30 * 1000;
+// A freshly activated bot must answer --version within this long to be kept
+const POST_INSTALL_CHECK_TIMEOUT_MS = 15 * 1000;
+
+// Network errors worth retrying; anything else fails the download immediately
+const TRANSIENT_ERROR_CODES = new Set([
+  'ECONNRESET', 'ECONNREFUSED', 'ECONNABORTED', 'ETIMEDOUT', 'EPIPE', 'ENOTFOUND',
+  'EAI_AGAIN', 'ENETUNREACH', 'EHOSTUNREACH', 'ESTALLED', 'ERR_STREAM_PREMATURE_CLOSE'
+]);
+
+/**
+ * Bot Downloader
+ *
+ * Every release is installed side by side under ~/.toji/bot/versions/<version>.
+ * current.json names the active version and is replaced atomically, so a
+ * failed or interrupted install never leaves the launcher without a bot.
+ */
 export class BotDownloader {
   private mainWindow: BrowserWindow;
   private botDirectory: string;
-  private currentDownload?: any;
+  private versionsDirectory: string;
+  private pointerFile: string;
+  private currentDownload?: AbortController;
 
   constructor(mainWindow: BrowserWindow) {
     this.mainWindow = mainWindow;
     this.botDirectory = path.join(os.homedir(), '.toji', 'bot');
+    this.versionsDirectory = path.join(this.botDirectory, 'versions');
+    this.pointerFile = path.join(this.botDirectory, 'current.json');
+    this.migrateLegacyInstall();
+    this.cleanupStaleFiles();
     this.setupIpcHandlers();
   }
 
@@ -48,31 +106,269 @@ export class BotDownloader {
       return await this.downloadBot();
     });
 
+    ipcMain.handle('bot:cancel-download', async () => {
+      return this.cancelDownload();
+    });
+
     ipcMain.handle('bot:get-latest-release', async () => {
       return await this.getLatestRelease();
     });
+
+    ipcMain.handle('bot:check-compatibility', async () => {
+      return checkLauncherCompatibility(await this.getLatestRelease(), app.getVersion());
+    });
+
+    ipcMain.handle('bot:verify-installation', async () => {
+      return await this.verifyInstallation();
+    });
+
+    ipcMain.handle('bot:list-versions', async () => {
+      return await this.listVersions();
+    });
+
+    ipcMain.handle('bot:activate-version', async (_event, version: string) => {
+      try {
+        await this.activateVersion(version);
+        return { success: true };
+      } catch (error) {
+        return { success: false, error: (error as Error).message };
+      }
+    });
+
+    ipcMain.handle('bot:delete-version', async (_event, version: string) => {
+      try {
+        await this.deleteVersion(version);
+        return { success: true };
+      } catch (error) {
+        return { success: false, error: (error as Error).message };
+      }
+    });
   }
 
   private updateProgress(progress: DownloadProgress): void {
     this.mainWindow.webContents.send('bot:download-progress', progress);
   }
 
+  /**
+   * Path to the active version's bot executable
+   */
+  getBotExecutablePath(): string {
+    const version = this.getActiveVersion();
+    return version
+      ? path.join(this.getVersionDirectory(version), BOT_EXECUTABLE)
+      : path.join(this.botDirectory, BOT_EXECUTABLE);
+  }
+
   async checkBotInstalled(): Promise<boolean> {
+    const version = this.getActiveVersion();
+    return version ? await this.isVersionRunnable(version) : false;
+  }
+
+  /**
+   * Version named by current.json, or null when nothing is active
+   */
+  getActiveVersion(): string | null {
     try {
-      // Check if bot directory exists and contains the executable
-      const botExecutable = path.join(this.botDirectory, 'toji-bot');
-      await accessAsync(botExecutable, fs.constants.X_OK);
-      return true;
+      const pointer: CurrentVersionPointer = JSON.parse(fs.readFileSync(this.pointerFile, 'utf8'));
+      return pointer.version || null;
+    } catch {
+      return null;
+    }
+  }
+
+  /**
+   * Whether a release version is the one current.json points at
+   */
+  isActiveVersion(version: string): boolean {
+    return path.basename(this.getVersionDirectory(version)) === this.getActiveVersion();
+  }
+
+  async listVersions(): Promise<InstalledBotVersion[]> {
+    let entries: fs.Dirent[];
+    try {
+      entries = await fs.promises.readdir(this.versionsDirectory, { withFileTypes: true });
+    } catch {
+      return [];
+    }
+
+    const active = this.getActiveVersion();
+    const versions: InstalledBotVersion[] = [];
+
+    for (const entry of entries) {
+      if (!entry.isDirectory()) continue;
+      const stats = await fs.promises.stat(this.getVersionDirectory(entry.name));
+      versions.push({
+        version: entry.name,
+        active: entry.name === active,
+        installedAt: stats.mtimeMs,
+        runnable: await this.isVersionRunnable(entry.name)
+      });
+    }
+
+    return versions.sort((a, b) => b.installedAt - a.installedAt);
+  }
+
+  /**
+   * Point current.json at an installed version. A running bot keeps its
+   * version until it is restarted.
+   */
+  async activateVersion(version: string): Promise<void> {
+    if (!(await this.isVersionRunnable(version))) {
+      throw new Error(`Bot version ${version} is not installed or has no executable`);
+    }
+    await this.setActiveVersion(version);
+  }
+
+  async deleteVersion(version: string): Promise<void> {
+    if (version === this.getActiveVersion()) {
+      throw new Error('Cannot delete the active bot version - activate another version first');
+    }
+
+    const directory = this.getVersionDirectory(version);
+    if (!fs.existsSync(directory)) {
+      throw new Error(`Bot version ${version} is not installed`);
+    }
+    await fs.promises.rm(directory, { recursive: true, force: true });
+  }
+
+  private getVersionDirectory(version: string): string {
+    // Versions come from release tags; keep them to a single safe path segment
+    const safeName = version.replace(/[^A-Za-z0-9._-]/g, '_').replace(/^\.+/, '_');
+    return path.join(this.versionsDirectory, safeName || '_');
+  }
+
+  /**
+   * Executable present and, if the bundle has a manifest, none of its files deleted
+   */
+  private async isVersionRunnable(version: string): Promise<boolean> {
+    const directory = this.getVersionDirectory(version);
+    try {
+      await accessAsync(path.join(directory, BOT_EXECUTABLE), fs.constants.X_OK);
+      return hasAllManifestFiles(directory);
     } catch {
       return false;
     }
   }
 
+  /**
+   * Re-hash the active version against its bundle manifest and check it
+   * still suits this launcher and the installed Node.js
+   */
+  async verifyInstallation(): Promise<BundleVerification | null> {
+    const version = this.getActiveVersion();
+    if (!version) return null;
+
+    const directory = this.getVersionDirectory(version);
+    const verification = await verifyBundle(directory, version);
+    const problems: string[] = [];
+
+    try {
+      await accessAsync(path.join(directory, BOT_EXECUTABLE), fs.constants.X_OK);
+    } catch {
+      problems.push(`${BOT_EXECUTABLE} is missing or not executable`);
+    }
+
+    const launcherProblem = checkLauncherVersion(verification.minLauncherVersion);
+    if (launcherProblem) {
+      problems.push(launcherProblem);
+    }
+
+    if (verification.nodeVersion) {
+      const node = await getPlatformService().checkNodeJS();
+      if (!node.version) {
+        problems.push(`The bot needs Node.js ${verification.nodeVersion} but Node.js was not found`);
+      } else if ((compareVersions(node.version, verification.nodeVersion) ?? 0) < 0) {
+        problems.push(`The bot needs Node.js ${verification.nodeVersion} but ${node.version} is installed`);
+      }
+    }
+
+    return {
+      ...verification,
+      healthy: verification.healthy && problems.length === 0,
+      problems
+    };
+  }
+
+  /**
+   * Write current.json via a temp file and rename so readers never see a partial pointer
+   */
+  private async setActiveVersion(version: string): Promise<void> {
+    const pointer: CurrentVersionPointer = {
+      version: path.basename(this.getVersionDirectory(version)),
+      activatedAt: Date.now()
+    };
+    const tempFile = `${this.pointerFile}.${process.pid}.tmp`;
+
+    await mkdirAsync(this.botDirectory, { recursive: true });
+    await fs.promises.writeFile(tempFile, JSON.stringify(pointer, null, 2));
+    await fs.promises.rename(tempFile, this.pointerFile);
+  }
+
+  /**
+   * Move a bot extracted straight into ~/.toji/bot by older launchers into versions/legacy
+   */
+  private migrateLegacyInstall(): void {
+    try {
+      if (fs.existsSync(this.pointerFile) || !fs.existsSync(path.join(this.botDirectory, BOT_EXECUTABLE))) {
+        return;
+      }
+
+      const legacyDirectory = this.getVersionDirectory(LEGACY_VERSION);
+      fs.mkdirSync(legacyDirectory, { recursive: true });
+
+      for (const entry of fs.readdirSync(this.botDirectory)) {
+        if (entry === 'versions' || entry === DOWNLOADS_DIR || entry === STAGING_DIR || entry === TRASH_DIR) continue;
+        fs.renameSync(path.join(this.botDirectory, entry), path.join(legacyDirectory, entry));
+      }
+
+      const pointer: CurrentVersionPointer = { version: LEGACY_VERSION, activatedAt: Date.now() };
+      fs.writeFileSync(this.pointerFile, JSON.stringify(pointer, null, 2));
+      console.log('Migrated existing bot install to', legacyDirectory);
+    } catch (error) {
+      console.error('Failed to migrate legacy bot install:', error);
+    }
+  }
+
   async getLatestRelease(): Promise<BotRelease> {
-    // For development/testing, use local file
-    const localBundlePath = path.join(__dirname, 'bot', 'toji-bot-linux-x64.tar.gz');
+    const localRelease = this.getLocalRelease();
+    if (localRelease) {
+      return localRelease;
+    }
+    console.log('Local bundle not found, using published releases');
     
-    // Check if local bundle exists
+    // Production: GitHub Releases API or a self-hosted manifest
+    return await this.getReleaseResolver().resolveLatest();
+  }
+
+  /**
+   * The published release matching the active version, for reinstalling it as it is
+   */
+  async getInstalledRelease(): Promise<BotRelease> {
+    const version = this.getActiveVersion();
+    if (!version) {
+      throw new Error('No bot version is installed');
+    }
+    if (version === LEGACY_VERSION) {
+      throw new Error('The installed bot predates versioned installs and can\'t be repaired - install the latest release instead');
+    }
+
+    const localRelease = this.getLocalRelease();
+    if (localRelease && this.isActiveVersion(localRelease.version)) {
+      return localRelease;
+    }
+
+    const release = await this.getReleaseResolver().resolveVersion(version);
+    if (!this.isActiveVersion(release.version)) {
+      throw new Error(`Resolved bot ${release.version} instead of the installed ${version}`);
+    }
+    return release;
+  }
+
+  /**
+   * For development/testing, a bundle shipped next to the launcher
+   */
+  private getLocalRelease(): BotRelease | null {
+    const localBundlePath = path.join(__dirname, 'bot', 'toji-bot-linux-x64.tar.gz');
     try {
       const stats = fs.statSync(localBundlePath);
       console.log('Using local bot bundle for testing:', localBundlePath);
@@ -81,40 +377,40 @@ export class BotDownloader {
         downloadUrl: `file://${localBundlePath}`,
         size: stats.size,
       };
-    } catch (error) {
-      console.log('Local bundle not found, using GitHub release');
+    } catch {
+      return null;
     }
-    
-    // Production: Query GitHub releases API
-    // const response = await fetch('https://api.github.com/repos/yourusername/toji/releases/latest');
-    // const release = await response.json();
-    // return {
-    //   version: release.tag_name,
-    //   downloadUrl: release.assets[0].browser_download_url,
-    //   size: release.assets[0].size
-    // };
-
-    // Fallback for now
-    return {
-      version: 'v1.0.0',
-      downloadUrl: 'https://github.com/Krenuds/toji-launcher/releases/latest/download/toji-bot-linux.tar.gz',
-      size: 14 * 1024 * 1024, // 14MB (actual size)
-    };
   }
 
-  async downloadBot(): Promise<boolean> {
+  private getReleaseResolver(): ReleaseResolver {
+    const sourceUrl = launcherSettings.get().botReleasesUrl || process.env.TOJI_RELEASES_URL || DEFAULT_RELEASES_URL;
+    const cacheFile = path.join(getPlatformService().getAppDataPath(), 'cache', 'bot-release.json');
+    return new ReleaseResolver(sourceUrl, cacheFile);
+  }
+
+  /**
+   * Download, verify and activate a release - the latest one unless another is given
+   */
+  async downloadBot(requestedRelease?: BotRelease): Promise<boolean> {
     try {
       this.updateProgress({
         stage: 'checking',
         progress: 0,
-        message: 'Checking for latest bot version...'
+        message: requestedRelease ? `Preparing bot ${requestedRelease.version}...` : 'Checking for latest bot version...'
       });
 
-      // Get latest release info
-      const release = await this.getLatestRelease();
+      const release = requestedRelease || await this.getLatestRelease();
+      const previousVersion = this.getActiveVersion();
 
-      // Create bot directory if it doesn't exist
-      await mkdirAsync(this.botDirectory, { recursive: true });
+      // Don't install a bot this launcher can't run
+      const compatibility = checkLauncherCompatibility(release, app.getVersion());
+      if (!compatibility.compatible) {
+        throw new Error(compatibility.message);
+      } else if (compatibility.message) {
+        console.warn(compatibility.message);
+      }
+      const versionDirectory = this.getVersionDirectory(release.version);
+      const versionName = path.basename(versionDirectory);
 
       // Download the bot
       this.updateProgress({
@@ -125,36 +421,104 @@ export class BotDownloader {
         message: `Downloading bot ${release.version} (${Math.round(release.size / 1024 / 1024)}MB)...`
       });
 
-      const downloadPath = path.join(os.tmpdir(), 'toji-bot-download.tar.gz');
+      // Named per release so an interrupted download can be resumed later
+      const archiveName = path.basename(decodeURIComponent(new URL(release.downloadUrl).pathname));
+      const downloadDirectory = path.join(this.botDirectory, DOWNLOADS_DIR);
+      await mkdirAsync(downloadDirectory, { recursive: true });
+      const downloadPath = path.join(downloadDirectory, `${versionName}-${archiveName}`);
       await this.downloadFile(release.downloadUrl, downloadPath, release.size);
 
-      // Extract the bot
+      // Verify the archive before anything is extracted from it
+      this.updateProgress({
+        stage: 'verifying',
+        progress: 50,
+        message: 'Verifying download integrity...'
+      });
+
+      try {
+        await this.verifyDownload(release, downloadPath);
+      } catch (error) {
+        fs.unlinkSync(downloadPath);
+        throw error;
+      }
+
+      // Extract into a staging directory; the live version directory is untouched until it checks out
       this.updateProgress({
         stage: 'extracting',
         progress: 50,
         message: 'Extracting bot files...'
       });
 
-      await this.extractArchive(downloadPath, this.botDirectory);
+      const stagingDirectory = path.join(this.botDirectory, STAGING_DIR, `${versionName}-${Date.now()}`);
+      // A reinstalled version's old copy, kept until the new one passes its post-install check
+      let replacedDirectory: string | null = null;
+      try {
+        await extractArchive(downloadPath, stagingDirectory);
 
-      // Clean up download
-      fs.unlinkSync(downloadPath);
+        // Make executable
+        const botExecutable = path.join(stagingDirectory, BOT_EXECUTABLE);
+        if (fs.existsSync(botExecutable)) {
+          fs.chmodSync(botExecutable, 0o755);
+        }
+
+        this.updateProgress({
+          stage: 'verifying',
+          progress: 80,
+          message: 'Verifying extracted files...'
+        });
+
+        try {
+          await accessAsync(botExecutable, fs.constants.X_OK);
+        } catch {
+          throw new Error(`Bot ${release.version} bundle does not contain a ${BOT_EXECUTABLE} executable`);
+        }
+
+        const verification = await verifyBundle(stagingDirectory, release.version);
+        if (!verification.healthy) {
+          throw new Error(verification.error || `Bot ${release.version} bundle failed its integrity check ` +
+            `(${verification.missing.length} missing, ${verification.modified.length} modified files)`);
+        }
 
-      // Verify installation
+        // Hashes only prove the bundle matches its own manifest - it must also be the release we asked for
+        const stripTagPrefix = (version: string) => version.replace(/^v/i, '');
+        if (verification.hasManifest && stripTagPrefix(verification.version) !== stripTagPrefix(release.version)) {
+          throw new Error(`Bot ${release.version} bundle contains version ${verification.version} - refusing to install it`);
+        }
+
+        const launcherProblem = checkLauncherVersion(readBundleManifest(stagingDirectory)?.minLauncherVersion);
+        if (launcherProblem) {
+          throw new Error(launcherProblem);
+        }
+
+        replacedDirectory = await this.moveIntoPlace(stagingDirectory, versionDirectory);
+      } finally {
+        await fs.promises.rm(stagingDirectory, { recursive: true, force: true });
+        await fs.promises.rm(downloadPath, { force: true });
+      }
+
+      // Switch to the new version, then verify it and roll back if it is broken
       this.updateProgress({
         stage: 'verifying',
         progress: 90,
         message: 'Verifying bot installation...'
       });
 
-      const isInstalled = await this.checkBotInstalled();
-      if (!isInstalled) {
-        throw new Error('Bot verification failed - executable not found');
+      await this.setActiveVersion(release.version);
+
+      const problem = await this.checkActivatedVersion();
+      if (problem) {
+        const restoredVersion = await this.rollback(previousVersion, versionName, replacedDirectory);
+        if (!restoredVersion) {
+          throw new Error(`Bot ${release.version} failed its post-install check: ${problem}`);
+        }
+        throw new Error(restoredVersion === versionName
+          ? `Bot ${release.version} failed its post-install check (${problem}) - restored the previously installed copy`
+          : `Bot ${release.version} failed its post-install check (${problem}) - rolled back to ${restoredVersion}`);
       }
 
-      // Make executable
-      const botExecutable = path.join(this.botDirectory, 'toji-bot');
-      fs.chmodSync(botExecutable, 0o755);
+      if (replacedDirectory) {
+        await fs.promises.rm(replacedDirectory, { recursive: true, force: true });
+      }
 
       this.updateProgress({
         stage: 'complete',
@@ -164,6 +528,15 @@ export class BotDownloader {
 
       return true;
     } catch (error) {
+      if ((error as Error).message === 'Download cancelled') {
+        this.updateProgress({
+          stage: 'cancelled',
+          progress: 0,
+          message: 'Download cancelled - it will resume where it left off next time'
+        });
+        return false;
+      }
+
       this.updateProgress({
         stage: 'error',
         progress: 0,
@@ -174,6 +547,149 @@ export class BotDownloader {
     }
   }
 
+  /**
+   * Rename a verified staging directory over the version directory. A version
+   * being reinstalled is moved aside first so the swap is two renames, never a copy.
+   * Returns where the old copy was moved, for the caller to delete or restore.
+   */
+  private async moveIntoPlace(stagingDirectory: string, versionDirectory: string): Promise<string | null> {
+    await mkdirAsync(this.versionsDirectory, { recursive: true });
+
+    if (!fs.existsSync(versionDirectory)) {
+      await fs.promises.rename(stagingDirectory, versionDirectory);
+      return null;
+    }
+
+    const trashDirectory = path.join(this.botDirectory, TRASH_DIR);
+    await mkdirAsync(trashDirectory, { recursive: true });
+    const replaced = path.join(trashDirectory, `${path.basename(versionDirectory)}-${Date.now()}`);
+
+    await fs.promises.rename(versionDirectory, replaced);
+    try {
+      await fs.promises.rename(stagingDirectory, versionDirectory);
+    } catch (error) {
+      await fs.promises.rename(replaced, versionDirectory);
+      throw error;
+    }
+    return replaced;
+  }
+
+  /**
+   * Remove what an interrupted install leaves behind: staging and trash
+   * directories, pointer temp files, downloaded archives that were never
+   * extracted and partial downloads too old to be worth resuming
+   */
+  private cleanupStaleFiles(): void {
+    const remove = (target: string) => {
+      try {
+        fs.rmSync(target, { recursive: true, force: true });
+      } catch (error) {
+        console.warn('Failed to remove stale install file', target, error);
+      }
+    };
+
+    remove(path.join(this.botDirectory, STAGING_DIR));
+    remove(path.join(this.botDirectory, TRASH_DIR));
+    // Fixed download location used by older launchers
+    remove(path.join(os.tmpdir(), 'toji-bot-download.tar.gz'));
+
+    if (!fs.existsSync(this.botDirectory)) return;
+
+    try {
+      for (const entry of fs.readdirSync(this.botDirectory)) {
+        if (entry.startsWith('current.json.') && entry.endsWith('.tmp')) {
+          remove(path.join(this.botDirectory, entry));
+        }
+      }
+
+      const downloadDirectory = path.join(this.botDirectory, DOWNLOADS_DIR);
+      if (!fs.existsSync(downloadDirectory)) return;
+
+      for (const entry of fs.readdirSync(downloadDirectory)) {
+        const entryPath = path.join(downloadDirectory, entry);
+        const partialPath = entry.endsWith('.part.json') ? entryPath.slice(0, -'.json'.length) : entryPath;
+        const isPartial = partialPath.endsWith('.part');
+        const age = Date.now() - fs.statSync(entryPath).mtimeMs;
+
+        if (!isPartial || age > PARTIAL_DOWNLOAD_MAX_AGE_MS) {
+          remove(entryPath);
+        }
+      }
+    } catch (error) {
+      console.warn('Failed to clean up stale bot install files:', error);
+    }
+  }
+
+  /**
+   * Run the active bot with --version to prove it actually starts on this
+   * machine (missing libraries, wrong architecture, crashing on load).
+   * Returns what went wrong, or null when it ran cleanly.
+   */
+  private async checkActivatedVersion(): Promise<string | null> {
+    const botExecutable = this.getBotExecutablePath();
+    try {
+      await execFileAsync(botExecutable, ['--version'], {
+        cwd: path.dirname(botExecutable),
+        timeout: POST_INSTALL_CHECK_TIMEOUT_MS
+      });
+      return null;
+    } catch (error) {
+      const failure = error as Error & { killed?: boolean; stderr?: string };
+      if (failure.killed) {
+        return `${BOT_EXECUTABLE} --version did not finish within ${POST_INSTALL_CHECK_TIMEOUT_MS / 1000}s`;
+      }
+      // The last stderr line usually says why it couldn't start
+      const lastLine = (failure.stderr || '').trim().split('\n').pop();
+      return lastLine || failure.message;
+    }
+  }
+
+  /**
+   * Discard a broken install, put back the copy it replaced (if any) and
+   * re-activate the previous version. Returns the version active afterwards.
+   */
+  private async rollback(previousVersion: string | null, failedVersion: string, replacedDirectory: string | null): Promise<string | null> {
+    try {
+      const failedDirectory = this.getVersionDirectory(failedVersion);
+      await fs.promises.rm(failedDirectory, { recursive: true, force: true });
+      if (replacedDirectory) {
+        await fs.promises.rename(replacedDirectory, failedDirectory);
+      }
+
+      // Reinstalling the active version only has something to go back to if the old copy existed
+      if (previousVersion && (previousVersion !== failedVersion || replacedDirectory)) {
+        await this.setActiveVersion(previousVersion);
+        return previousVersion;
+      }
+      await fs.promises.rm(this.pointerFile, { force: true });
+    } catch (error) {
+      console.error('Failed to roll back bot install:', error);
+    }
+    return null;
+  }
+
+  /**
+   * Check the archive's SHA-256 against the release and, when a signing key
+   * is configured, require a valid detached signature
+   */
+  private async verifyDownload(release: BotRelease, archivePath: string): Promise<void> {
+    if (release.checksum) {
+      await verifyChecksum(archivePath, release.checksum);
+    } else if (!release.downloadUrl.startsWith('file://')) {
+      // Only local development bundles may skip the checksum
+      throw new Error(`Release ${release.version} does not publish a SHA-256 checksum - refusing to install it`);
+    }
+
+    const publicKey = getSigningPublicKey();
+    if (!publicKey) return;
+
+    // A stripped signature must not be a way around the check
+    if (!release.signature) {
+      throw new Error(`Release ${release.version} is not signed but a signing key is configured - refusing to install it`);
+    }
+    await verifySignature(archivePath, release.signature, publicKey);
+  }
+
   private async downloadFile(url: string, destination: string, totalSize: number): Promise<void> {
     // Handle local file URLs for testing
     if (url.startsWith('file://')) {
@@ -209,95 +725,190 @@ export class BotDownloader {
       });
     }
 
-    // Handle HTTP/HTTPS downloads
-    return new Promise((resolve, reject) => {
-      const file = createWriteStream(destination);
-      let downloadedBytes = 0;
-
-      const request = https.get(url, (response) => {
-        // Handle redirects
-        if (response.statusCode === 301 || response.statusCode === 302) {
-          const redirectUrl = response.headers.location;
-          if (redirectUrl) {
-            https.get(redirectUrl, (redirectResponse) => {
-              this.handleDownloadResponse(redirectResponse, file, totalSize, resolve, reject);
-            });
-          } else {
-            reject(new Error('Redirect without location header'));
+    // HTTP/HTTPS downloads go to a .part file that later attempts resume from
+    const partialPath = `${destination}.part`;
+    const abort = new AbortController();
+    this.currentDownload = abort;
+
+    try {
+      for (let attempt = 1; ; attempt++) {
+        try {
+          await this.downloadAttempt(url, partialPath, totalSize, abort.signal);
+          break;
+        } catch (error) {
+          if (abort.signal.aborted) {
+            throw new Error('Download cancelled');
+          }
+          if (attempt >= MAX_DOWNLOAD_ATTEMPTS || !isTransientError(error)) {
+            throw error;
           }
-        } else if (response.statusCode === 200) {
-          this.handleDownloadResponse(response, file, totalSize, resolve, reject);
-        } else {
-          reject(new Error(`Download failed with status ${response.statusCode}`));
+
+          const delay = Math.min(RETRY_BASE_DELAY_MS * 2 ** (attempt - 1), RETRY_MAX_DELAY_MS);
+          console.warn(`Bot download attempt ${attempt} failed:`, (error as Error).message);
+          this.updateProgress({
+            stage: 'downloading',
+            progress: 0,
+            totalBytes: totalSize,
+            message: `Connection problem (${(error as Error).message}) - retrying in ${Math.round(delay / 1000)}s...`
+          });
+          await waitUnlessAborted(delay, abort.signal);
         }
-      });
+      }
+    } finally {
+      if (this.currentDownload === abort) {
+        this.currentDownload = undefined;
+      }
+    }
 
-      request.on('error', (error) => {
-        fs.unlinkSync(destination);
-        reject(error);
-      });
+    await fs.promises.rename(partialPath, destination);
+    await fs.promises.rm(`${partialPath}.json`, { force: true });
+  }
+
+  /**
+   * One HTTP request for the rest of the file, appending to the partial download
+   */
+  private async downloadAttempt(url: string, partialPath: string, totalSize: number, signal: AbortSignal): Promise<void> {
+    const metaPath = `${partialPath}.json`;
+    const meta = readPartialMeta(metaPath);
+
+    // A partial file is only usable for the same URL and if it isn't already too long
+    let existingBytes = fs.existsSync(partialPath) ? fs.statSync(partialPath).size : 0;
+    if (existingBytes > 0 && (meta?.url !== url || (totalSize > 0 && existingBytes > totalSize))) {
+      fs.rmSync(partialPath, { force: true });
+      existingBytes = 0;
+    }
+    if (totalSize > 0 && existingBytes === totalSize) {
+      return;
+    }
+
+    const headers: Record<string, string> = {};
+    if (existingBytes > 0) {
+      headers['Range'] = `bytes=${existingBytes}-`;
+      // Only resume if the file on the server hasn't changed since we started
+      const validator = meta?.etag || meta?.lastModified;
+      if (validator) {
+        headers['If-Range'] = validator;
+      }
+    }
 
-      this.currentDownload = request;
+    const { request, response } = await openRequest(url, { headers, signal });
+    const statusCode = response.statusCode || 0;
+
+    // The server can't satisfy our range - throw the partial file away and start over
+    if (statusCode === 416) {
+      response.resume();
+      fs.rmSync(partialPath, { force: true });
+      throw Object.assign(new Error('Server rejected resume range'), { statusCode });
+    }
+
+    if (statusCode !== 200 && statusCode !== 206) {
+      response.resume();
+      throw Object.assign(new Error(`Download failed with status ${statusCode}`), { statusCode });
+    }
+
+    // 200 means the server ignored the range (or the file changed): start from zero
+    const resuming = statusCode === 206;
+    let downloadedBytes = resuming ? existingBytes : 0;
+    const expectedBytes = totalSize || Number(response.headers['content-length'] || 0) + downloadedBytes;
+
+    writePartialMeta(metaPath, {
+      url,
+      etag: response.headers.etag,
+      lastModified: response.headers['last-modified']
     });
-  }
 
-  private handleDownloadResponse(
-    response: any,
-    file: fs.WriteStream,
-    totalSize: number,
-    resolve: Function,
-    reject: Function
-  ): void {
-    let downloadedBytes = 0;
+    // Abort the request if no data arrives for too long
+    let stallTimer: NodeJS.Timeout | undefined;
+    const resetStallTimer = () => {
+      if (stallTimer) clearTimeout(stallTimer);
+      stallTimer = setTimeout(() => {
+        request.destroy(Object.assign(new Error('Download stalled'), { code: 'ESTALLED' }));
+      }, STALL_TIMEOUT_MS);
+    };
+    resetStallTimer();
 
     response.on('data', (chunk: Buffer) => {
+      resetStallTimer();
       downloadedBytes += chunk.length;
-      const progress = Math.round((downloadedBytes / totalSize) * 100);
-      
+      const progress = expectedBytes ? Math.round((downloadedBytes / expectedBytes) * 100) : 0;
+
       this.updateProgress({
         stage: 'downloading',
         progress: Math.min(progress * 0.5, 50), // Cap at 50% for download phase
-        totalBytes: totalSize,
+        totalBytes: expectedBytes,
         downloadedBytes,
-        message: `Downloading... ${Math.round(downloadedBytes / 1024 / 1024)}MB / ${Math.round(totalSize / 1024 / 1024)}MB`
+        message: `${resuming ? 'Resuming download' : 'Downloading'}... ${Math.round(downloadedBytes / 1024 / 1024)}MB / ${Math.round(expectedBytes / 1024 / 1024)}MB`
       });
     });
 
-    response.pipe(file);
-
-    file.on('finish', () => {
-      file.close();
-      resolve();
-    });
+    try {
+      await pipeline(response, fs.createWriteStream(partialPath, { flags: resuming ? 'a' : 'w' }));
+    } finally {
+      if (stallTimer) clearTimeout(stallTimer);
+    }
 
-    file.on('error', (error: Error) => {
-      fs.unlinkSync(file.path.toString());
-      reject(error);
-    });
+    if (expectedBytes && downloadedBytes < expectedBytes) {
+      throw Object.assign(new Error('Connection closed before the download finished'), { code: 'ECONNRESET' });
+    }
   }
 
-  private async extractArchive(archivePath: string, destination: string): Promise<void> {
-    const extension = path.extname(archivePath);
-
-    if (extension === '.gz' || extension === '.tar') {
-      // Extract tar.gz
-      await tar.extract({
-        file: archivePath,
-        cwd: destination
-      });
-    } else if (extension === '.zip') {
-      // For Windows support later, we'll need to handle zip files
-      // For now, we only support tar.gz
-      throw new Error('ZIP extraction not yet implemented');
-    } else {
-      throw new Error(`Unsupported archive format: ${extension}`);
+  /**
+   * Abort the download in progress; the partial file is kept so the next attempt resumes
+   */
+  cancelDownload(): boolean {
+    if (!this.currentDownload) {
+      return false;
     }
+    this.currentDownload.abort();
+    this.currentDownload = undefined;
+    return true;
   }
 
   cleanup(): void {
-    if (this.currentDownload) {
-      this.currentDownload.abort();
-      this.currentDownload = null;
-    }
+    this.cancelDownload();
+  }
+}
+
+function isTransientError(error: any): boolean {
+  if (typeof error?.statusCode === 'number') {
+    return error.statusCode >= 500 || error.statusCode === 429 || error.statusCode === 416;
+  }
+  return TRANSIENT_ERROR_CODES.has(error?.code);
+}
+
+function waitUnlessAborted(ms: number, signal: AbortSignal): Promise<void> {
+  return new Promise((resolve) => {
+    const timer = setTimeout(resolve, ms);
+    signal.addEventListener('abort', () => {
+      clearTimeout(timer);
+      resolve();
+    }, { once: true });
+  });
+}
+
+function readPartialMeta(metaPath: string): PartialDownloadMeta | null {
+  try {
+    return JSON.parse(fs.readFileSync(metaPath, 'utf8'));
+  } catch {
+    return null;
+  }
+}
+
+function writePartialMeta(metaPath: string, meta: PartialDownloadMeta): void {
+  try {
+    fs.writeFileSync(metaPath, JSON.stringify(meta));
+  } catch (error) {
+    console.warn('Failed to record partial download info:', error);
   }
-}
\ No newline at end of file
+}
+
+/**
+ * Problem message if this launcher is older than a bundle requires
+ */
+function checkLauncherVersion(minLauncherVersion?: string): string | null {
+  if (!minLauncherVersion) return null;
+  const comparison = compareVersions(app.getVersion(), minLauncherVersion);
+  return comparison !== null && comparison < 0
+    ? `This bot needs launcher ${minLauncherVersion} or newer (you have ${app.getVersion()})`
+    : null;
+}
@@ -0,0 +1,127 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { LogEntry, LogFilter } from '../types';
+
+const LOG_FILE_NAME = 'bot.log';
+const DEFAULT_MAX_FILE_BYTES = 1024 * 1024; // 1MB per file
+const DEFAULT_MAX_FILES = 5;                // bot.log + bot.1.log ... bot.4.log
+
+/**
+ * Persistent Bot Log Store
+ *
+ * Appends bot stdout/stderr lines as JSON lines to bot.log and rotates it
+ * by size (bot.log -> bot.1.log -> bot.2.log ...), dropping the oldest file.
+ */
+export class BotLogStore {
+  private logDirectory: string;
+  private maxFileBytes: number;
+  private maxFiles: number;
+  private currentSize: number = 0;
+
+  constructor(logDirectory: string, maxFileBytes: number = DEFAULT_MAX_FILE_BYTES, maxFiles: number = DEFAULT_MAX_FILES) {
+    this.logDirectory = logDirectory;
+    this.maxFileBytes = maxFileBytes;
+    this.maxFiles = maxFiles;
+
+    try {
+      fs.mkdirSync(this.logDirectory, { recursive: true });
+      this.currentSize = fs.statSync(this.getFilePath(0)).size;
+    } catch {
+      this.currentSize = 0;
+    }
+  }
+
+  private getFilePath(index: number): string {
+    return index === 0
+      ? path.join(this.logDirectory, LOG_FILE_NAME)
+      : path.join(this.logDirectory, `bot.${index}.log`);
+  }
+
+  /**
+   * Append entries to the current log file, rotating first if it would grow too large
+   */
+  append(entries: LogEntry[]): void {
+    if (entries.length === 0) return;
+
+    const data = entries.map(entry => JSON.stringify(entry)).join('\n') + '\n';
+    const bytes = Buffer.byteLength(data);
+
+    try {
+      if (this.currentSize > 0 && this.currentSize + bytes > this.maxFileBytes) {
+        this.rotate();
+      }
+      fs.appendFileSync(this.getFilePath(0), data);
+      this.currentSize += bytes;
+    } catch (error) {
+      console.error('Failed to write bot log:', error);
+    }
+  }
+
+  private rotate(): void {
+    const oldest = this.getFilePath(this.maxFiles - 1);
+    if (fs.existsSync(oldest)) {
+      fs.unlinkSync(oldest);
+    }
+
+    for (let i = this.maxFiles - 2; i >= 0; i--) {
+      const source = this.getFilePath(i);
+      if (fs.existsSync(source)) {
+        fs.renameSync(source, this.getFilePath(i + 1));
+      }
+    }
+
+    this.currentSize = 0;
+  }
+
+  /**
+   * Return the last `lines` entries matching the filter, oldest first
+   */
+  read(lines?: number, filter: LogFilter = {}): LogEntry[] {
+    const limit = lines && lines > 0 ? lines : Infinity;
+    const result: LogEntry[] = [];
+
+    // Walk from the newest file to the oldest until we have enough lines
+    for (let i = 0; i < this.maxFiles && result.length < limit; i++) {
+      const filePath = this.getFilePath(i);
+      if (!fs.existsSync(filePath)) continue;
+
+      const fileEntries = this.readFile(filePath).filter(entry => this.matches(entry, filter));
+      result.unshift(...fileEntries.slice(-(limit - result.length)));
+    }
+
+    return result;
+  }
+
+  private readFile(filePath: string): LogEntry[] {
+    try {
+      const content = fs.readFileSync(filePath, 'utf8');
+      const entries: LogEntry[] = [];
+      for (const line of content.split('\n')) {
+        if (!line.trim()) continue;
+        try {
+          entries.push(JSON.parse(line));
+        } catch {
+          // Skip lines truncated by a crash mid-write
+        }
+      }
+      return entries;
+    } catch (error) {
+      console.error('Failed to read bot log:', error);
+      return [];
+    }
+  }
+
+  private matches(entry: LogEntry, filter: LogFilter): boolean {
+    if (filter.stream && entry.stream !== filter.stream) return false;
+    if (filter.since !== undefined && entry.timestamp < filter.since) return false;
+    if (filter.until !== undefined && entry.timestamp > filter.until) return false;
+    return true;
+  }
+}
+
+/**
+ * Format a log entry as a single display line
+ */
+export function formatLogEntry(entry: LogEntry): string {
+  return `[${new Date(entry.timestamp).toISOString()}] [${entry.stream}] ${entry.line}`;
+}
@@ -0,0 +1,348 @@
+import { BrowserWindow, ipcMain } from 'electron';
+import { spawn, ChildProcess } from 'child_process';
+import * as path from 'path';
+import { BotDownloader } from './bot-downloader';
+import { BotConfigStore } from './bot-config';
+import { BotLogStore, formatLogEntry } from './bot-log-store';
+import { getPlatformService } from './platform/platform-service';
+import { authManager } from './auth';
+import { launcherSettings } from './launcher-settings';
+import { BotStatus, RestartPolicy, RestartRecord, LogEntry, LogFilter } from '../types';
+
+// How long to wait after SIGTERM before forcing the bot down with SIGKILL
+const STOP_TIMEOUT_MS = 10000;
+
+export const DEFAULT_RESTART_POLICY: RestartPolicy = {
+  enabled: true,
+  maxRestarts: 5,
+  windowMs: 10 * 60 * 1000,
+  initialBackoffMs: 1000,
+  maxBackoffMs: 60 * 1000
+};
+
+/**
+ * The restart policy in effect: the botRestartPolicy setting over the defaults
+ */
+export function getRestartPolicy(): RestartPolicy {
+  return { ...DEFAULT_RESTART_POLICY, ...launcherSettings.get().botRestartPolicy };
+}
+
+/**
+ * Why a restart policy setting can't be used, or null if it is fine
+ */
+export function checkRestartPolicy(policy: Partial<RestartPolicy>): string | null {
+  const { enabled, ...durations } = policy;
+  if (enabled !== undefined && typeof enabled !== 'boolean') {
+    return 'Restart policy "enabled" must be true or false';
+  }
+  for (const [key, value] of Object.entries(durations)) {
+    if (!(key in DEFAULT_RESTART_POLICY)) {
+      return `Unknown restart policy setting: ${key}`;
+    }
+    if (typeof value !== 'number' || !Number.isInteger(value) || value < 0) {
+      return `Restart policy "${key}" must be a whole number of zero or more`;
+    }
+  }
+
+  const { initialBackoffMs, maxBackoffMs } = { ...DEFAULT_RESTART_POLICY, ...policy };
+  if (initialBackoffMs > maxBackoffMs) {
+    return 'The first restart delay cannot be longer than the maximum restart delay';
+  }
+  return null;
+}
+
+/**
+ * Bot Process Supervisor
+ *
+ * Spawns the installed toji-bot executable, tracks its pid and uptime,
+ * and pushes status changes to the renderer over bot:status-changed.
+ * Output is persisted to a rotating log store and streamed over bot:log-line.
+ * Crashes (a non-zero exit code or a signal) are restarted with exponential
+ * backoff according to the botRestartPolicy launcher setting.
+ */
+export class BotSupervisor {
+  private mainWindow: BrowserWindow;
+  private botDownloader: BotDownloader;
+  private botConfigStore: BotConfigStore;
+  private botProcess: ChildProcess | null = null;
+  private startedAt?: number;
+  private lastError?: string;
+  private logStore: BotLogStore;
+  private partialLines: Record<LogEntry['stream'], string> = { stdout: '', stderr: '' };
+  private restartHistory: RestartRecord[] = [];
+  private restartTimer?: NodeJS.Timeout;
+  private stopRequested: boolean = false;
+
+  constructor(
+    mainWindow: BrowserWindow,
+    botDownloader: BotDownloader,
+    botConfigStore: BotConfigStore
+  ) {
+    this.mainWindow = mainWindow;
+    this.botDownloader = botDownloader;
+    this.botConfigStore = botConfigStore;
+    this.logStore = new BotLogStore(path.join(getPlatformService().getAppDataPath(), 'logs'));
+    this.setupIpcHandlers();
+
+    // The running bot belongs to the previous account's configuration
+    authManager.on('account-changed', () => {
+      this.stop();
+    });
+  }
+
+  private setupIpcHandlers(): void {
+    ipcMain.handle('bot:start', async () => {
+      return await this.start();
+    });
+
+    ipcMain.handle('bot:stop', async () => {
+      return await this.stop();
+    });
+
+    ipcMain.handle('bot:get-status', async () => {
+      return this.getStatus();
+    });
+
+    ipcMain.handle('bot:get-restart-history', async () => {
+      return this.getRestartHistory();
+    });
+
+    ipcMain.handle('bot:get-restart-policy', async () => {
+      return getRestartPolicy();
+    });
+
+    ipcMain.handle('bot:get-logs', async (_, lines?: number, filter?: LogFilter) => {
+      return this.getLogs(lines, filter);
+    });
+  }
+
+  private emitStatus(): void {
+    if (!this.mainWindow.isDestroyed()) {
+      this.mainWindow.webContents.send('bot:status-changed', this.getStatus());
+    }
+  }
+
+  /**
+   * Current state of the supervised bot process
+   */
+  getStatus(): BotStatus {
+    if (!this.botProcess || !this.startedAt) {
+      return { running: false, error: this.lastError };
+    }
+
+    return {
+      running: true,
+      pid: this.botProcess.pid,
+      uptime: Math.floor((Date.now() - this.startedAt) / 1000)
+    };
+  }
+
+  /**
+   * Automatic restarts performed since the launcher started, oldest first
+   */
+  getRestartHistory(): RestartRecord[] {
+    return [...this.restartHistory];
+  }
+
+  /**
+   * Most recent stdout/stderr lines captured from the bot, formatted for display
+   */
+  getLogs(lines?: number, filter?: LogFilter): string[] {
+    return this.logStore.read(lines, filter).map(formatLogEntry);
+  }
+
+  /**
+   * Spawn the installed bot executable
+   */
+  async start(): Promise<{ success: boolean; error?: string }> {
+    if (this.botProcess) {
+      return { success: false, error: 'Bot is already running' };
+    }
+
+    this.cancelPendingRestart();
+    this.stopRequested = false;
+
+    const isInstalled = await this.botDownloader.checkBotInstalled();
+    if (!isInstalled) {
+      return { success: false, error: 'Bot is not installed' };
+    }
+
+    const validation = this.botConfigStore.validate(this.botConfigStore.getConfig());
+    if (!validation.valid) {
+      const problems = Object.values(validation.errors).join(', ');
+      return { success: false, error: `Bot is not configured: ${problems}` };
+    }
+
+    const botExecutable = this.botDownloader.getBotExecutablePath();
+
+    return new Promise((resolve) => {
+      const child = spawn(botExecutable, [], {
+        cwd: path.dirname(botExecutable),
+        env: { ...process.env, ...this.botConfigStore.toEnvironment() },
+        stdio: ['ignore', 'pipe', 'pipe']
+      });
+
+      child.stdout?.on('data', (data) => this.appendLogs('stdout', data.toString()));
+      child.stderr?.on('data', (data) => this.appendLogs('stderr', data.toString()));
+
+      child.once('spawn', () => {
+        this.botProcess = child;
+        this.startedAt = Date.now();
+        this.lastError = undefined;
+        this.emitStatus();
+        resolve({ success: true });
+      });
+
+      child.once('error', (error) => {
+        // Only reached before 'spawn' when the executable cannot be launched
+        if (this.botProcess !== child) {
+          this.lastError = `Failed to start bot: ${error.message}`;
+          this.emitStatus();
+          resolve({ success: false, error: this.lastError });
+        }
+      });
+
+      // 'close' rather than 'exit' so the last output lines are logged before any restart
+      child.once('close', (code, signal) => {
+        if (this.botProcess !== child) return;
+
+        this.botProcess = null;
+        this.startedAt = undefined;
+        this.flushPartialLines();
+
+        if (this.stopRequested) {
+          this.emitStatus();
+          return;
+        }
+
+        // A clean exit is the bot shutting itself down, not a crash
+        if (code === 0 && !signal) {
+          this.lastError = undefined;
+          this.emitStatus();
+          return;
+        }
+
+        this.lastError = `Bot exited unexpectedly with ${signal ? `signal ${signal}` : `code ${code}`}`;
+        this.scheduleRestart(code, signal);
+        this.emitStatus();
+      });
+    });
+  }
+
+  /**
+   * Stop the bot gracefully, escalating to SIGKILL if it doesn't exit in time
+   */
+  async stop(): Promise<{ success: boolean; error?: string }> {
+    this.cancelPendingRestart();
+
+    const child = this.botProcess;
+    if (!child) {
+      return { success: true };
+    }
+
+    this.stopRequested = true;
+
+    return new Promise((resolve) => {
+      const killTimer = setTimeout(() => {
+        child.kill('SIGKILL');
+      }, STOP_TIMEOUT_MS);
+
+      child.once('close', () => {
+        clearTimeout(killTimer);
+        resolve({ success: true });
+      });
+
+      if (!child.kill('SIGTERM')) {
+        clearTimeout(killTimer);
+        resolve({ success: false, error: 'Failed to signal bot process' });
+      }
+    });
+  }
+
+  /**
+   * Schedule a restart after an unexpected exit, unless the policy's
+   * restart budget for the current window has been used up
+   */
+  private scheduleRestart(exitCode: number | null, signal: NodeJS.Signals | null): void {
+    const policy = getRestartPolicy();
+    if (!policy.enabled) return;
+
+    const now = Date.now();
+    const recentRestarts = this.restartHistory.filter(r => now - r.timestamp < policy.windowMs);
+
+    if (recentRestarts.length >= policy.maxRestarts) {
+      this.lastError += ` - gave up after ${recentRestarts.length} restarts in ${Math.round(policy.windowMs / 60000)} minutes`;
+      return;
+    }
+
+    const delayMs = Math.min(policy.initialBackoffMs * Math.pow(2, recentRestarts.length), policy.maxBackoffMs);
+    this.restartHistory.push({
+      timestamp: now,
+      exitCode,
+      signal,
+      attempt: recentRestarts.length + 1,
+      delayMs
+    });
+    // Short configured backoffs would otherwise read as "restarting in 0s"
+    this.lastError += delayMs < 1000
+      ? ` - restarting in ${delayMs}ms`
+      : ` - restarting in ${Math.ceil(delayMs / 1000)}s`;
+
+    this.restartTimer = setTimeout(async () => {
+      this.restartTimer = undefined;
+      const result = await this.start();
+      if (!result.success) {
+        console.error('Automatic bot restart failed:', result.error);
+      }
+    }, delayMs);
+  }
+
+  private cancelPendingRestart(): void {
+    if (this.restartTimer) {
+      clearTimeout(this.restartTimer);
+      this.restartTimer = undefined;
+    }
+  }
+
+  /**
+   * Split a chunk of output into lines, holding back any trailing partial line
+   */
+  private appendLogs(stream: LogEntry['stream'], text: string): void {
+    const lines = (this.partialLines[stream] + text).split('\n');
+    this.partialLines[stream] = lines.pop() || '';
+    this.recordLines(stream, lines);
+  }
+
+  private flushPartialLines(): void {
+    for (const stream of ['stdout', 'stderr'] as const) {
+      const remainder = this.partialLines[stream];
+      this.partialLines[stream] = '';
+      this.recordLines(stream, [remainder]);
+    }
+  }
+
+  private recordLines(stream: LogEntry['stream'], lines: string[]): void {
+    const timestamp = Date.now();
+    const entries: LogEntry[] = lines
+      .filter(line => line.trim())
+      .map(line => ({ timestamp, stream, line: line.replace(/\r$/, '') }));
+
+    if (entries.length === 0) return;
+
+    this.logStore.append(entries);
+    if (!this.mainWindow.isDestroyed()) {
+      entries.forEach(entry => this.mainWindow.webContents.send('bot:log-line', entry));
+    }
+  }
+
+  /**
+   * Clean up resources
+   */
+  cleanup(): void {
+    this.cancelPendingRestart();
+    this.stopRequested = true;
+    if (this.botProcess) {
+      this.botProcess.kill('SIGTERM');
+    }
+  }
+}
@@ -0,0 +1,175 @@
+import { app, BrowserWindow, ipcMain } from 'electron';
+import { BotDownloader, BotRelease } from './bot-downloader';
+import { BotSupervisor } from './bot-supervisor';
+import { checkLauncherCompatibility } from './release-resolver';
+import { compareVersions, parseVersion } from './version-utils';
+import { BotUpdateInfo } from '../types';
+
+const INITIAL_CHECK_DELAY_MS = 30 * 1000;
+const CHECK_INTERVAL_MS = 6 * 60 * 60 * 1000;
+
+/**
+ * Bot Updater
+ *
+ * Periodically compares the active bot version against the latest release
+ * and announces newer versions over bot:update-available. Updates are only
+ * installed when the user asks for them via bot:apply-update.
+ */
+export class BotUpdater {
+  private mainWindow: BrowserWindow;
+  private botDownloader: BotDownloader;
+  private botSupervisor: BotSupervisor;
+  private checkTimer?: NodeJS.Timeout;
+  private intervalTimer?: NodeJS.Timeout;
+  private availableUpdate: BotUpdateInfo | null = null;
+  private notifiedVersion?: string;
+  private applying: boolean = false;
+
+  constructor(mainWindow: BrowserWindow, botDownloader: BotDownloader, botSupervisor: BotSupervisor) {
+    this.mainWindow = mainWindow;
+    this.botDownloader = botDownloader;
+    this.botSupervisor = botSupervisor;
+    this.setupIpcHandlers();
+    this.schedule();
+  }
+
+  private setupIpcHandlers(): void {
+    ipcMain.handle('bot:check-for-updates', async () => {
+      return await this.checkForUpdate();
+    });
+
+    ipcMain.handle('bot:get-available-update', async () => {
+      return this.availableUpdate;
+    });
+
+    ipcMain.handle('bot:apply-update', async () => {
+      return await this.applyUpdate();
+    });
+
+    ipcMain.handle('bot:repair-installation', async () => {
+      return await this.repairInstallation();
+    });
+  }
+
+  private schedule(): void {
+    this.checkTimer = setTimeout(() => {
+      this.checkForUpdate();
+      this.intervalTimer = setInterval(() => this.checkForUpdate(), CHECK_INTERVAL_MS);
+    }, INITIAL_CHECK_DELAY_MS);
+  }
+
+  /**
+   * Look up the latest release; returns the update info if it is newer than the active bot
+   */
+  async checkForUpdate(): Promise<BotUpdateInfo | null> {
+    // Nothing to update before the first install, and don't race an install in progress
+    if (this.applying || !(await this.botDownloader.checkBotInstalled())) {
+      return this.availableUpdate;
+    }
+
+    try {
+      const release = await this.botDownloader.getLatestRelease();
+      const currentVersion = this.botDownloader.getActiveVersion();
+
+      if (this.botDownloader.isActiveVersion(release.version) || !isNewerVersion(release.version, currentVersion)) {
+        this.availableUpdate = null;
+        return null;
+      }
+
+      this.availableUpdate = {
+        currentVersion,
+        latestVersion: release.version,
+        notes: release.notes,
+        checkedAt: Date.now(),
+        compatibility: checkLauncherCompatibility(release, app.getVersion())
+      };
+
+      // Announce each version once; the renderer can still query it later
+      if (this.notifiedVersion !== release.version && !this.mainWindow.isDestroyed()) {
+        this.notifiedVersion = release.version;
+        this.mainWindow.webContents.send('bot:update-available', this.availableUpdate);
+      }
+
+      return this.availableUpdate;
+    } catch (error) {
+      console.warn('Bot update check failed:', (error as Error).message);
+      return this.availableUpdate;
+    }
+  }
+
+  async applyUpdate(): Promise<{ success: boolean; error?: string }> {
+    return await this.reinstall('Bot update failed - the previous version is still installed');
+  }
+
+  /**
+   * Download the installed version again over a damaged install - never a different version
+   */
+  async repairInstallation(): Promise<{ success: boolean; error?: string }> {
+    let release: BotRelease;
+    try {
+      release = await this.botDownloader.getInstalledRelease();
+    } catch (error) {
+      return { success: false, error: (error as Error).message };
+    }
+    return await this.reinstall('Repair download failed - the installed version was left as it was', release);
+  }
+
+  /**
+   * Stop the bot if it is running, install a release (the latest unless one is
+   * given) and start it again
+   */
+  private async reinstall(failureMessage: string, release?: BotRelease): Promise<{ success: boolean; error?: string }> {
+    if (this.applying) {
+      return { success: false, error: 'An update is already being installed' };
+    }
+
+    this.applying = true;
+    const wasRunning = this.botSupervisor.getStatus().running;
+
+    try {
+      if (wasRunning) {
+        const stopped = await this.botSupervisor.stop();
+        if (!stopped.success) {
+          return { success: false, error: stopped.error || 'Failed to stop bot before updating' };
+        }
+      }
+
+      const installed = await this.botDownloader.downloadBot(release);
+      if (installed && !release) {
+        this.availableUpdate = null;
+      }
+
+      // Bring the bot back either way - a failed install leaves the previous version active
+      if (wasRunning) {
+        const started = await this.botSupervisor.start();
+        if (!started.success) {
+          return { success: false, error: started.error || 'Bot updated but failed to restart' };
+        }
+      }
+
+      return installed
+        ? { success: true }
+        : { success: false, error: failureMessage };
+    } finally {
+      this.applying = false;
+    }
+  }
+
+  cleanup(): void {
+    if (this.checkTimer) {
+      clearTimeout(this.checkTimer);
+    }
+    if (this.intervalTimer) {
+      clearInterval(this.intervalTimer);
+    }
+  }
+}
+
+/**
+ * An unparseable current version (e.g. a legacy install) is always considered older
+ */
+function isNewerVersion(latest: string, current: string | null): boolean {
+  if (!parseVersion(latest)) return false;
+  if (!current || !parseVersion(current)) return true;
+  return (compareVersions(latest, current) ?? 0) > 0;
+}
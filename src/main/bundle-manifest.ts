@@ -0,0 +1,106 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { sha256File } from './bundle-verifier';
+import { BundleVerification } from '../types';
+
+export const BUNDLE_MANIFEST_FILE = 'toji-bundle.json';
+
+/**
+ * toji-bundle.json, shipped at the root of every bot bundle
+ */
+export interface BundleManifest {
+  version: string;
+  minLauncherVersion?: string;
+  nodeVersion?: string;            // Minimum Node.js version the bot needs, e.g. "20" or "20.11.0"
+  files: Record<string, string>;   // Relative path -> hex SHA-256
+}
+
+/**
+ * Read and sanity-check a bundle manifest; null if the bundle doesn't ship one
+ */
+export function readBundleManifest(bundleDirectory: string): BundleManifest | null {
+  const manifestPath = path.join(bundleDirectory, BUNDLE_MANIFEST_FILE);
+  if (!fs.existsSync(manifestPath)) return null;
+
+  const manifest = JSON.parse(fs.readFileSync(manifestPath, 'utf8'));
+  if (typeof manifest.version !== 'string' || !manifest.files || typeof manifest.files !== 'object') {
+    throw new Error(`${BUNDLE_MANIFEST_FILE} is missing its version or file list`);
+  }
+  return manifest;
+}
+
+/**
+ * Quick check that every file the manifest lists is present (no hashing)
+ */
+export function hasAllManifestFiles(bundleDirectory: string): boolean {
+  try {
+    const manifest = readBundleManifest(bundleDirectory);
+    if (!manifest) return true;
+    return Object.keys(manifest.files).every(file => fs.existsSync(resolveManifestPath(bundleDirectory, file)));
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Re-hash every file listed in the manifest and report missing or modified ones
+ */
+export async function verifyBundle(bundleDirectory: string, version: string): Promise<BundleVerification> {
+  let manifest: BundleManifest | null;
+  try {
+    manifest = readBundleManifest(bundleDirectory);
+  } catch (error) {
+    return {
+      version,
+      hasManifest: true,
+      healthy: false,
+      checkedFiles: 0,
+      missing: [],
+      modified: [],
+      error: `Bundle manifest is unreadable: ${(error as Error).message}`
+    };
+  }
+
+  if (!manifest) {
+    return { version, hasManifest: false, healthy: true, checkedFiles: 0, missing: [], modified: [] };
+  }
+
+  const missing: string[] = [];
+  const modified: string[] = [];
+
+  for (const [file, expected] of Object.entries(manifest.files)) {
+    let filePath: string;
+    try {
+      filePath = resolveManifestPath(bundleDirectory, file);
+    } catch {
+      modified.push(file);
+      continue;
+    }
+
+    if (!fs.existsSync(filePath)) {
+      missing.push(file);
+    } else if ((await sha256File(filePath)) !== expected.toLowerCase()) {
+      modified.push(file);
+    }
+  }
+
+  return {
+    version: manifest.version,
+    hasManifest: true,
+    healthy: missing.length === 0 && modified.length === 0,
+    checkedFiles: Object.keys(manifest.files).length,
+    missing,
+    modified,
+    minLauncherVersion: manifest.minLauncherVersion,
+    nodeVersion: manifest.nodeVersion
+  };
+}
+
+function resolveManifestPath(bundleDirectory: string, file: string): string {
+  const resolved = path.resolve(bundleDirectory, file);
+  const relative = path.relative(bundleDirectory, resolved);
+  if (!relative || relative.startsWith('..') || path.isAbsolute(relative)) {
+    throw new Error(`Manifest entry ${file} points outside the bundle`);
+  }
+  return resolved;
+}
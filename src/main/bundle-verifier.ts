@@ -0,0 +1,82 @@
+import * as crypto from 'crypto';
+import * as fs from 'fs';
+import { launcherSettings } from './launcher-settings';
+
+/**
+ * Ed25519 public key (PEM) that bot bundles must be signed with: the file named by
+ * the botSigningKeyPath setting, else TOJI_BOT_PUBLIC_KEY. Null when neither is set,
+ * in which case only checksums are verified.
+ */
+export function getSigningPublicKey(): string | null {
+  const keyPath = launcherSettings.get().botSigningKeyPath;
+  if (keyPath) {
+    return fs.readFileSync(keyPath, 'utf8');
+  }
+  return process.env.TOJI_BOT_PUBLIC_KEY || null;
+}
+
+/**
+ * Why a file can't be used as the signing key, or undefined if it is an Ed25519 public key
+ */
+export function checkSigningKeyFile(keyPath: string): string | undefined {
+  let key: crypto.KeyObject;
+  try {
+    key = crypto.createPublicKey(fs.readFileSync(keyPath, 'utf8'));
+  } catch (error) {
+    return `Could not read a public key from ${keyPath}: ${(error as Error).message}`;
+  }
+  if (key.asymmetricKeyType !== 'ed25519') {
+    return `${keyPath} is a ${key.asymmetricKeyType} key - bot bundles are signed with Ed25519`;
+  }
+  return undefined;
+}
+
+/**
+ * Hex SHA-256 digest of a file, streamed so large bundles aren't held in memory
+ */
+export function sha256File(filePath: string): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const hash = crypto.createHash('sha256');
+    fs.createReadStream(filePath)
+      .on('data', (chunk) => hash.update(chunk))
+      .on('end', () => resolve(hash.digest('hex')))
+      .on('error', reject);
+  });
+}
+
+/**
+ * Throw unless the file's SHA-256 matches the expected hex digest
+ */
+export async function verifyChecksum(filePath: string, expected: string): Promise<void> {
+  const actual = await sha256File(filePath);
+  if (actual !== expected.trim().toLowerCase()) {
+    throw new Error(`Checksum mismatch - expected SHA-256 ${expected}, got ${actual}. The download may be corrupted or tampered with.`);
+  }
+}
+
+/**
+ * Throw unless the base64 detached Ed25519 signature over the file is valid for the key
+ */
+export async function verifySignature(filePath: string, signatureBase64: string, publicKeyPem: string): Promise<void> {
+  const data = await fs.promises.readFile(filePath);
+  const signature = Buffer.from(signatureBase64.trim(), 'base64');
+
+  let valid = false;
+  try {
+    valid = crypto.verify(null, data, crypto.createPublicKey(publicKeyPem), signature);
+  } catch (error) {
+    throw new Error(`Signature verification failed: ${(error as Error).message}`);
+  }
+
+  if (!valid) {
+    throw new Error('Signature verification failed - the bundle was not signed by the Toji release key');
+  }
+}
+
+/**
+ * Extract the digest from a checksum file ("<hex>  <filename>" or just "<hex>")
+ */
+export function parseChecksumFile(content: string): string | undefined {
+  const match = content.match(/\b[0-9a-fA-F]{64}\b/);
+  return match ? match[0].toLowerCase() : undefined;
+}
@@ -0,0 +1,264 @@
+import * as http from 'http';
+import * as https from 'https';
+import * as tls from 'tls';
+import * as net from 'net';
+import * as fs from 'fs';
+import { Duplex } from 'stream';
+import { pipeline } from 'stream/promises';
+import { launcherSettings } from './launcher-settings';
+
+const REDIRECT_STATUSES = new Set([301, 302, 303, 307, 308]);
+const DEFAULT_MAX_REDIRECTS = 10;
+const DEFAULT_CONNECT_TIMEOUT_MS = 30 * 1000;
+
+export interface RequestOptions {
+  headers?: Record<string, string>;
+  signal?: AbortSignal;
+  maxRedirects?: number;
+  timeoutMs?: number;  // Until response headers arrive
+}
+
+export interface OpenResponse {
+  request: http.ClientRequest;
+  response: http.IncomingMessage;
+  url: string;  // Final URL after redirects
+}
+
+interface NetworkConfig {
+  httpsProxy?: string;
+  httpProxy?: string;
+  noProxy: string[];
+  caCertificatesPath?: string;
+}
+
+/**
+ * Download Client
+ *
+ * The one place launcher downloads go through. Follows bounded redirect
+ * chains (including relative Location headers), routes through an HTTP(S)
+ * proxy from the launcher settings or HTTPS_PROXY/HTTP_PROXY/NO_PROXY, and
+ * trusts extra CA certificates for networks with an intercepting proxy.
+ */
+export async function openRequest(url: string, options: RequestOptions = {}): Promise<OpenResponse> {
+  const maxRedirects = options.maxRedirects ?? DEFAULT_MAX_REDIRECTS;
+  let currentUrl = new URL(url);
+
+  for (let redirects = 0; ; redirects++) {
+    const { request, response } = await sendRequest(currentUrl, options);
+    const statusCode = response.statusCode || 0;
+    const location = response.headers.location;
+
+    if (!REDIRECT_STATUSES.has(statusCode) || !location) {
+      return { request, response, url: currentUrl.toString() };
+    }
+
+    response.resume();
+    if (redirects >= maxRedirects) {
+      throw new Error(`Too many redirects (more than ${maxRedirects}) fetching ${url}`);
+    }
+
+    const nextUrl = new URL(location, currentUrl);
+    if (currentUrl.protocol === 'https:' && nextUrl.protocol !== 'https:') {
+      throw new Error(`Refusing to follow redirect from HTTPS to ${nextUrl.protocol} (${nextUrl.origin})`);
+    }
+    currentUrl = nextUrl;
+  }
+}
+
+/**
+ * Download a URL to a file, deleting the partial file on failure
+ */
+export async function downloadToFile(url: string, destination: string, options: RequestOptions = {}): Promise<void> {
+  const { response } = await openRequest(url, options);
+
+  if (response.statusCode !== 200) {
+    response.resume();
+    throw new Error(`Download failed with status ${response.statusCode}`);
+  }
+
+  try {
+    await pipeline(response, fs.createWriteStream(destination));
+  } catch (error) {
+    fs.rmSync(destination, { force: true });
+    throw error;
+  }
+}
+
+/**
+ * Fetch a small text document such as a release manifest or checksum file
+ */
+export async function fetchText(url: string, options: RequestOptions = {}): Promise<string> {
+  const { response } = await openRequest(url, options);
+
+  if (!response.statusCode || response.statusCode < 200 || response.statusCode >= 300) {
+    response.resume();
+    throw new Error(`Request failed with status ${response.statusCode}`);
+  }
+
+  const chunks: Buffer[] = [];
+  for await (const chunk of response) {
+    chunks.push(chunk as Buffer);
+  }
+  return Buffer.concat(chunks).toString('utf8');
+}
+
+/**
+ * Returns an error message if a proxy URL is unusable, otherwise null
+ */
+export function checkProxyUrl(proxyUrl: string): string | null {
+  try {
+    const parsed = new URL(proxyUrl);
+    if (parsed.protocol !== 'http:' && parsed.protocol !== 'https:') {
+      return 'Proxy URL must start with http:// or https://';
+    }
+    return null;
+  } catch {
+    return 'Proxy URL is not a valid URL';
+  }
+}
+
+function sendRequest(url: URL, options: RequestOptions): Promise<{ request: http.ClientRequest; response: http.IncomingMessage }> {
+  const config = getNetworkConfig();
+  const isHttps = url.protocol === 'https:';
+  const proxy = shouldBypassProxy(url, config.noProxy)
+    ? undefined
+    : (isHttps ? config.httpsProxy : config.httpProxy);
+
+  const requestOptions: https.RequestOptions = {
+    method: 'GET',
+    headers: { 'User-Agent': 'toji-launcher', ...options.headers },
+    signal: options.signal
+  };
+
+  if (isHttps) {
+    requestOptions.ca = getTrustedCertificates(config.caCertificatesPath);
+    if (proxy) {
+      requestOptions.agent = new TunnelingAgent(new URL(proxy));
+    }
+  }
+
+  let target: URL | string = url;
+  if (!isHttps && proxy) {
+    // Plain HTTP goes to the proxy with the absolute URL as the request path
+    const proxyUrl = new URL(proxy);
+    requestOptions.hostname = proxyUrl.hostname;
+    requestOptions.port = proxyUrl.port || 80;
+    requestOptions.path = url.toString();
+    requestOptions.headers = { ...requestOptions.headers, Host: url.host, ...proxyAuthorization(proxyUrl) };
+    target = '';
+  }
+
+  const transport = isHttps ? https : http;
+
+  return new Promise((resolve, reject) => {
+    const callback = (response: http.IncomingMessage) => {
+      request.setTimeout(0);
+      resolve({ request, response });
+    };
+    const request = target
+      ? transport.request(target, requestOptions, callback)
+      : transport.request(requestOptions, callback);
+
+    request.setTimeout(options.timeoutMs ?? DEFAULT_CONNECT_TIMEOUT_MS, () => {
+      request.destroy(Object.assign(new Error(`Request to ${url.host} timed out`), { code: 'ETIMEDOUT' }));
+    });
+    request.on('error', reject);
+    request.end();
+  });
+}
+
+/**
+ * Launcher settings win over the conventional proxy environment variables
+ */
+function getNetworkConfig(): NetworkConfig {
+  const settings = launcherSettings.get();
+  const env = process.env;
+  const noProxy = settings.noProxy ?? env.NO_PROXY ?? env.no_proxy ?? '';
+
+  return {
+    httpsProxy: settings.proxyUrl || env.HTTPS_PROXY || env.https_proxy || env.HTTP_PROXY || env.http_proxy,
+    httpProxy: settings.proxyUrl || env.HTTP_PROXY || env.http_proxy,
+    noProxy: noProxy.split(/[\s,]+/).map(entry => entry.trim().toLowerCase()).filter(Boolean),
+    caCertificatesPath: settings.caCertificatesPath
+  };
+}
+
+/**
+ * NO_PROXY entries: "*", exact hosts, domain suffixes ("example.com" or ".example.com"), optional ":port"
+ */
+function shouldBypassProxy(url: URL, noProxy: string[]): boolean {
+  const hostname = url.hostname.toLowerCase().replace(/^\[|\]$/g, '');
+  const port = url.port || (url.protocol === 'https:' ? '443' : '80');
+
+  return noProxy.some(entry => {
+    if (entry === '*') return true;
+
+    const [entryHost, entryPort] = entry.replace(/^\[|\]$/g, '').split(/:(?=\d+$)/);
+    if (entryPort && entryPort !== port) return false;
+
+    const domain = entryHost.replace(/^\*?\./, '');
+    return hostname === domain || hostname.endsWith(`.${domain}`);
+  });
+}
+
+/**
+ * Node's default roots plus the PEM bundle configured for intercepting proxies
+ */
+function getTrustedCertificates(caCertificatesPath?: string): string[] | undefined {
+  if (!caCertificatesPath) return undefined;
+
+  try {
+    return [...tls.rootCertificates, fs.readFileSync(caCertificatesPath, 'utf8')];
+  } catch (error) {
+    console.error(`Failed to read CA certificates from ${caCertificatesPath}:`, error);
+    return undefined;
+  }
+}
+
+function proxyAuthorization(proxyUrl: URL): Record<string, string> {
+  if (!proxyUrl.username) return {};
+  const credentials = `${decodeURIComponent(proxyUrl.username)}:${decodeURIComponent(proxyUrl.password)}`;
+  return { 'Proxy-Authorization': `Basic ${Buffer.from(credentials).toString('base64')}` };
+}
+
+/**
+ * HTTPS through a proxy: open a CONNECT tunnel, then run TLS to the origin inside it
+ */
+class TunnelingAgent extends https.Agent {
+  private proxyUrl: URL;
+
+  constructor(proxyUrl: URL) {
+    super({ keepAlive: false });
+    this.proxyUrl = proxyUrl;
+  }
+
+  // The tunnel is set up asynchronously, so the socket is handed over through the callback
+  createConnection(
+    options: http.ClientRequestArgs & tls.ConnectionOptions,
+    callback: (error: Error | null, socket?: Duplex) => void
+  ): net.Socket | undefined {
+    const proxyTransport = this.proxyUrl.protocol === 'https:' ? https : http;
+    const authority = `${options.host}:${options.port || 443}`;
+
+    const connectRequest = proxyTransport.request({
+      hostname: this.proxyUrl.hostname,
+      port: this.proxyUrl.port || (this.proxyUrl.protocol === 'https:' ? 443 : 80),
+      method: 'CONNECT',
+      path: authority,
+      headers: { Host: authority, ...proxyAuthorization(this.proxyUrl) }
+    });
+
+    connectRequest.once('connect', (response, socket) => {
+      if (response.statusCode !== 200) {
+        socket.destroy();
+        callback(new Error(`Proxy refused tunnel to ${authority} with status ${response.statusCode}`));
+        return;
+      }
+      callback(null, tls.connect({ ...options, socket, servername: options.servername || options.host }));
+    });
+    connectRequest.once('error', (error) => callback(error));
+    connectRequest.end();
+
+    return undefined;
+  }
+}
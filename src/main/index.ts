@@ -4,6 +4,11 @@ import { registerIpcHandlers } from './ipc-handlers';
 import { authManager } from './auth';
 import { SystemSetup } from './system-setup';
 import { BotDownloader } from './bot-downloader';
+import { BotSupervisor } from './bot-supervisor';
+import { BotUpdater } from './bot-updater';
+import { BotConfigStore } from './bot-config';
+import { ServiceHealthChecker } from './service-health';
+import { applyToolchainEnvironment } from './node-toolchain';
 
 let mainWindow: BrowserWindow | null = null;
 
@@ -29,11 +34,23 @@ function createWindow() {
   
   // Initialize bot downloader
   const botDownloader = new BotDownloader(mainWindow);
+
+  // Initialize bot configuration
+  const botConfigStore = new BotConfigStore(mainWindow);
+  new ServiceHealthChecker(botConfigStore);
+
+  // Initialize bot process supervisor
+  const botSupervisor = new BotSupervisor(mainWindow, botDownloader, botConfigStore);
+
+  // Check for newer bot releases in the background
+  const botUpdater = new BotUpdater(mainWindow, botDownloader, botSupervisor);
   
   // Clean up on window close
   mainWindow.on('closed', () => {
     systemSetup.cleanup();
     botDownloader.cleanup();
+    botSupervisor.cleanup();
+    botUpdater.cleanup();
     mainWindow = null;
   });
 
@@ -45,13 +62,20 @@ function createWindow() {
     mainWindow.webContents.openDevTools();
   }
 
-  // Check auth state on startup (silent check)
-  authManager.getUser();
+  // Validate the stored session with the OAuth server on startup (silent check)
+  authManager.validateSession();
 
 }
 
 // This method will be called when Electron has finished initialization
 app.whenReady().then(() => {
+  // Put the launcher-managed Node.js and npm prefix on PATH before anything is spawned
+  try {
+    applyToolchainEnvironment();
+  } catch (error) {
+    console.warn('Failed to set up the Node.js toolchain environment:', (error as Error).message);
+  }
+
   createWindow();
 
   app.on('activate', () => {
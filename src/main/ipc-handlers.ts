@@ -1,10 +1,24 @@
 import { ipcMain, app } from 'electron';
-import { authManager } from './auth';
+import { authManager, checkOAuthEndpoint } from './auth';
+import { launcherSettings, LauncherSettings } from './launcher-settings';
+import { checkProxyUrl } from './download-client';
+import { isValidRange } from './version-utils';
+import { checkRestartPolicy } from './bot-supervisor';
+import { checkSigningKeyFile } from './bundle-verifier';
+import { DEFAULT_TOOLCHAIN_SELECTION, getToolchainStatus, installToolchain, listLtsReleases } from './node-toolchain';
+import * as fs from 'fs';
 
 /**
  * Register all IPC handlers for the main process
  */
 export function registerIpcHandlers(mainWindow: Electron.BrowserWindow) {
+
+  // Forward refreshes and lapsed sessions to the renderer
+  authManager.on('state-changed', (user) => {
+    if (!mainWindow.isDestroyed()) {
+      mainWindow.webContents.send('auth:state-changed', user);
+    }
+  });
   
   // Auth handlers
   ipcMain.handle('auth:login', async () => {
@@ -25,44 +39,128 @@ export function registerIpcHandlers(mainWindow: Electron.BrowserWindow) {
   ipcMain.handle('auth:logout', async () => {
     authManager.logout();
     
-    // Notify renderer of auth state change
-    mainWindow.webContents.send('auth:state-changed', null);
+    // Notify renderer of auth state change (another stored account may now be active)
+    mainWindow.webContents.send('auth:state-changed', authManager.getUser());
     
     return { success: true };
   });
 
   ipcMain.handle('auth:get-user', async () => {
+    await authManager.ensureValidSession();
     return authManager.getUser();
   });
 
-  // System handlers
-  ipcMain.handle('system:get-version', async () => {
-    return app.getVersion();
+  ipcMain.handle('auth:list-accounts', async () => {
+    return authManager.listAccounts();
   });
 
-  ipcMain.handle('system:open-external', async (event, url: string) => {
-    const { shell } = require('electron');
-    await shell.openExternal(url);
+  ipcMain.handle('auth:switch-account', async (event, accountId: string) => {
+    try {
+      const user = await authManager.switchAccount(accountId);
+      mainWindow.webContents.send('auth:state-changed', user);
+      return { success: true, user };
+    } catch (error: any) {
+      return { success: false, error: error.message };
+    }
   });
 
-  // Bot handlers (placeholder for Phase 3)
-  ipcMain.handle('bot:start', async () => {
-    // TODO: Implement in Phase 3
-    return { success: false, error: 'Not implemented yet' };
+  ipcMain.handle('auth:remove-account', async (event, accountId: string) => {
+    authManager.removeAccount(accountId);
+    mainWindow.webContents.send('auth:state-changed', authManager.getUser());
+    return { success: true };
   });
 
-  ipcMain.handle('bot:stop', async () => {
-    // TODO: Implement in Phase 3
-    return { success: false, error: 'Not implemented yet' };
+  // Launcher settings handlers
+  ipcMain.handle('settings:get', async () => {
+    return launcherSettings.get();
   });
 
-  ipcMain.handle('bot:get-status', async () => {
-    // TODO: Implement in Phase 3
-    return { running: false };
+  ipcMain.handle('settings:update', async (event, update: Partial<LauncherSettings>) => {
+    if (update.oauthServerUrl) {
+      const problem = checkOAuthEndpoint(update.oauthServerUrl);
+      if (problem) {
+        return { success: false, error: problem };
+      }
+    }
+
+    if (update.proxyUrl) {
+      const problem = checkProxyUrl(update.proxyUrl);
+      if (problem) {
+        return { success: false, error: problem };
+      }
+    }
+
+    if (update.caCertificatesPath && !fs.existsSync(update.caCertificatesPath)) {
+      return { success: false, error: `CA certificate file not found: ${update.caCertificatesPath}` };
+    }
+
+    if (update.botSigningKeyPath) {
+      const problem = checkSigningKeyFile(update.botSigningKeyPath);
+      if (problem) {
+        return { success: false, error: problem };
+      }
+    }
+
+    if (update.nodeToolchainVersion && update.nodeToolchainVersion !== DEFAULT_TOOLCHAIN_SELECTION
+        && !/^\d+$/.test(update.nodeToolchainVersion)) {
+      return { success: false, error: 'Node.js version must be "lts" or a major version such as 22' };
+    }
+
+    for (const [name, range] of Object.entries(update.requirementRanges || {})) {
+      if (!isValidRange(range)) {
+        return { success: false, error: `Invalid version range for ${name}: ${range}` };
+      }
+    }
+
+    if (update.botRestartPolicy) {
+      const problem = checkRestartPolicy(update.botRestartPolicy);
+      if (problem) {
+        return { success: false, error: problem };
+      }
+    }
+
+    try {
+      return { success: true, settings: launcherSettings.update(update) };
+    } catch (error: any) {
+      console.error('Failed to save launcher settings:', error);
+      return { success: false, error: error.message };
+    }
+  });
+
+  // Launcher-managed Node.js handlers
+  ipcMain.handle('node-toolchain:get-status', async () => {
+    return getToolchainStatus();
+  });
+
+  ipcMain.handle('node-toolchain:list-lts', async () => {
+    try {
+      return { success: true, releases: await listLtsReleases() };
+    } catch (error: any) {
+      return { success: false, error: error.message };
+    }
   });
 
-  ipcMain.handle('bot:get-logs', async (event, lines?: number) => {
-    // TODO: Implement in Phase 3
-    return [];
+  ipcMain.handle('node-toolchain:install', async () => {
+    try {
+      const status = await installToolchain((step, progress) => {
+        if (!mainWindow.isDestroyed()) {
+          mainWindow.webContents.send('node-toolchain:progress', { step, progress });
+        }
+      });
+      return { success: true, status };
+    } catch (error: any) {
+      console.error('Node.js toolchain install failed:', error);
+      return { success: false, error: error.message };
+    }
+  });
+
+  // System handlers
+  ipcMain.handle('system:get-version', async () => {
+    return app.getVersion();
+  });
+
+  ipcMain.handle('system:open-external', async (event, url: string) => {
+    const { shell } = require('electron');
+    await shell.openExternal(url);
   });
 }
\ No newline at end of file
@@ -0,0 +1,80 @@
+import { app } from 'electron';
+import * as path from 'path';
+import * as fs from 'fs';
+import { RestartPolicy } from '../types';
+
+const SETTINGS_FILE = path.join(app.getPath('userData'), 'settings.json');
+
+export interface LauncherSettings {
+  oauthServerUrl?: string;
+  // SHA-256 of the OAuth server certificate, "sha256/<base64>" or colon-separated hex
+  oauthCertFingerprint?: string;
+  // GitHub Releases API URL or self-hosted manifest for bot bundles
+  botReleasesUrl?: string;
+  // HTTP(S) proxy for downloads; overrides HTTPS_PROXY/HTTP_PROXY
+  proxyUrl?: string;
+  // Comma-separated hosts that bypass the proxy; overrides NO_PROXY
+  noProxy?: string;
+  // PEM bundle of extra CA certificates to trust (e.g. an intercepting proxy)
+  caCertificatesPath?: string;
+  // LTS line for the launcher-managed Node.js: 'lts' for the newest, or a major such as '22'
+  nodeToolchainVersion?: string;
+  // bin directory of the Node.js installation the user picked (nvm, volta, ...); put first on PATH
+  nodeBinDirectory?: string;
+  // Requirement name -> semver range overriding the built-in minimum, e.g. { "Node.js": ">=20" }
+  requirementRanges?: Record<string, string>;
+  // Ed25519 public key (PEM file) that bot bundles must be signed with
+  botSigningKeyPath?: string;
+  // Overrides for how crashed bots are restarted; unset fields keep their defaults
+  botRestartPolicy?: Partial<RestartPolicy>;
+}
+
+/**
+ * Launcher Settings
+ *
+ * Plain JSON settings that change how the launcher itself behaves
+ * (as opposed to the bot configuration). Nothing secret belongs here.
+ */
+class LauncherSettingsStore {
+  private settings: LauncherSettings = {};
+
+  constructor() {
+    this.load();
+  }
+
+  private load(): void {
+    try {
+      if (fs.existsSync(SETTINGS_FILE)) {
+        this.settings = JSON.parse(fs.readFileSync(SETTINGS_FILE, 'utf8'));
+      }
+    } catch (error) {
+      console.error('Failed to load launcher settings:', error);
+      this.settings = {};
+    }
+  }
+
+  get(): LauncherSettings {
+    return { ...this.settings };
+  }
+
+  /**
+   * Merge and persist a settings update; empty strings clear a setting
+   */
+  update(update: Partial<LauncherSettings>): LauncherSettings {
+    const merged: LauncherSettings = { ...this.settings, ...update };
+    for (const key of Object.keys(merged) as Array<keyof LauncherSettings>) {
+      const value: unknown = merged[key];
+      if (value === '' || value === null || value === undefined) {
+        delete merged[key];
+      }
+    }
+
+    fs.mkdirSync(path.dirname(SETTINGS_FILE), { recursive: true });
+    fs.writeFileSync(SETTINGS_FILE, JSON.stringify(merged, null, 2));
+    this.settings = merged;
+    return this.get();
+  }
+}
+
+// Export singleton instance
+export const launcherSettings = new LauncherSettingsStore();
@@ -0,0 +1,223 @@
+/**
+ * Node Toolchain
+ *
+ * A Node.js build from nodejs.org kept under the launcher's app data folder,
+ * plus a user-owned npm global prefix. Both are put on PATH for every child
+ * process the launcher spawns, so neither Node.js nor global npm installs
+ * (such as the Claude Code CLI) ever need root.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { getPlatformService } from './platform/platform-service';
+import { downloadToFile, fetchText } from './download-client';
+import { extractArchive } from './archive-extractor';
+import { verifyChecksum } from './bundle-verifier';
+import { launcherSettings } from './launcher-settings';
+import { NodeLtsRelease, NodeToolchainStatus } from '../types';
+
+const NODE_DIST_URL = 'https://nodejs.org/dist';
+const TOOLCHAIN_DIR = 'node-toolchain';
+const NPM_PREFIX_DIR = 'npm-global';
+const POINTER_FILE = 'toolchain.json';
+
+// 'lts' follows the newest LTS line; otherwise a major version such as '22'
+export const DEFAULT_TOOLCHAIN_SELECTION = 'lts';
+
+interface ToolchainPointer {
+  version: string;       // e.g. 'v22.11.0'
+  installedAt: number;
+}
+
+// PATH as the launcher was started with, so a re-apply replaces earlier entries instead of stacking them
+let inheritedPath: string | null = null;
+
+function getToolchainRoot(): string {
+  return path.join(getPlatformService().getAppDataPath(), TOOLCHAIN_DIR);
+}
+
+function getNpmPrefix(): string {
+  return path.join(getPlatformService().getAppDataPath(), NPM_PREFIX_DIR);
+}
+
+function readPointer(): ToolchainPointer | null {
+  try {
+    const pointer = JSON.parse(fs.readFileSync(path.join(getToolchainRoot(), POINTER_FILE), 'utf8'));
+    return typeof pointer.version === 'string' ? pointer : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Where node and npm live inside an extracted build (Windows builds keep them at the top level)
+ */
+function getBinDirectory(version: string): string {
+  const directory = path.join(getToolchainRoot(), version);
+  return process.platform === 'win32' ? directory : path.join(directory, 'bin');
+}
+
+function getNpmBinDirectory(): string {
+  return process.platform === 'win32' ? getNpmPrefix() : path.join(getNpmPrefix(), 'bin');
+}
+
+/**
+ * nodejs.org's names for this platform: the index.json files key and the archive suffix
+ */
+function getDistributionTarget(): { filesKey: string; archiveSuffix: string } {
+  const arch = process.arch === 'arm' ? 'armv7l' : process.arch;
+  switch (process.platform) {
+    case 'linux':
+      return { filesKey: `linux-${arch}`, archiveSuffix: `linux-${arch}.tar.gz` };
+    case 'darwin':
+      return { filesKey: `osx-${arch}-tar`, archiveSuffix: `darwin-${arch}.tar.gz` };
+    case 'win32':
+      return { filesKey: `win-${arch}-zip`, archiveSuffix: `win-${arch}.zip` };
+    default:
+      throw new Error(`No Node.js builds are published for ${process.platform}`);
+  }
+}
+
+/**
+ * Latest release of each LTS line that has a build for this platform, newest line first
+ */
+export async function listLtsReleases(): Promise<NodeLtsRelease[]> {
+  const { filesKey } = getDistributionTarget();
+  const index: Array<{ version: string; date: string; lts: string | false; files: string[] }> =
+    JSON.parse(await fetchText(`${NODE_DIST_URL}/index.json`));
+
+  // index.json is sorted newest first, so the first entry per major is its latest release
+  const releases: NodeLtsRelease[] = [];
+  for (const entry of index) {
+    const major = parseInt(entry.version.replace(/^v/, ''), 10);
+    if (!entry.lts || !entry.files.includes(filesKey) || releases.some(release => release.major === major)) {
+      continue;
+    }
+    releases.push({ version: entry.version, major, codename: entry.lts, date: entry.date });
+  }
+  return releases;
+}
+
+async function resolveRelease(selection: string): Promise<NodeLtsRelease> {
+  const releases = await listLtsReleases();
+  const release = selection === DEFAULT_TOOLCHAIN_SELECTION
+    ? releases[0]
+    : releases.find(candidate => String(candidate.major) === selection.replace(/^v/, ''));
+
+  if (!release) {
+    throw new Error(`No Node.js LTS release matches "${selection}"`);
+  }
+  return release;
+}
+
+export function getToolchainStatus(): NodeToolchainStatus {
+  const pointer = readPointer();
+  const selection = launcherSettings.get().nodeToolchainVersion || DEFAULT_TOOLCHAIN_SELECTION;
+
+  if (!pointer || !fs.existsSync(getBinDirectory(pointer.version))) {
+    return { installed: false, selection, npmPrefix: getNpmPrefix() };
+  }
+  return {
+    installed: true,
+    selection,
+    version: pointer.version,
+    binDirectory: getBinDirectory(pointer.version),
+    npmPrefix: getNpmPrefix(),
+    installedAt: pointer.installedAt
+  };
+}
+
+/**
+ * Put the chosen Node.js (the user's pick, else the managed toolchain) and the npm
+ * prefix on PATH and point npm at the prefix. Called on startup, after every install
+ * and when the user picks another Node.js; children inherit process.env.
+ */
+export function applyToolchainEnvironment(): void {
+  const pointer = readPointer();
+  const npmPrefix = getNpmPrefix();
+  const selectedBinDirectory = launcherSettings.get().nodeBinDirectory;
+  fs.mkdirSync(npmPrefix, { recursive: true });
+
+  const entries = [getNpmBinDirectory()];
+  if (selectedBinDirectory && fs.existsSync(selectedBinDirectory)) {
+    entries.unshift(selectedBinDirectory);
+  } else if (pointer && fs.existsSync(getBinDirectory(pointer.version))) {
+    entries.unshift(getBinDirectory(pointer.version));
+  }
+
+  if (inheritedPath === null) {
+    inheritedPath = process.env.PATH || '';
+  }
+  const remaining = inheritedPath
+    .split(path.delimiter)
+    .filter(entry => entry && !entries.includes(entry));
+
+  process.env.PATH = [...entries, ...remaining].join(path.delimiter);
+  process.env.NPM_CONFIG_PREFIX = npmPrefix;
+}
+
+/**
+ * Download the selected LTS build, check it against SHASUMS256.txt, unpack it and make it active
+ */
+export async function installToolchain(
+  onProgress: (step: string, progress: number) => void = () => {}
+): Promise<NodeToolchainStatus> {
+  const selection = launcherSettings.get().nodeToolchainVersion || DEFAULT_TOOLCHAIN_SELECTION;
+  onProgress('Looking up Node.js releases', 5);
+  const release = await resolveRelease(selection);
+
+  const root = getToolchainRoot();
+  const archiveName = `node-${release.version}-${getDistributionTarget().archiveSuffix}`;
+  const archivePath = path.join(root, archiveName);
+  const stagingDirectory = path.join(root, `.staging-${release.version}-${Date.now()}`);
+  await fs.promises.mkdir(root, { recursive: true });
+
+  try {
+    onProgress(`Downloading Node.js ${release.version}`, 20);
+    await downloadToFile(`${NODE_DIST_URL}/${release.version}/${archiveName}`, archivePath);
+
+    onProgress('Verifying download', 60);
+    const shasums = await fetchText(`${NODE_DIST_URL}/${release.version}/SHASUMS256.txt`);
+    const line = shasums.split('\n').find(entry => entry.trim().endsWith(`  ${archiveName}`));
+    if (!line) {
+      throw new Error(`SHASUMS256.txt for ${release.version} has no entry for ${archiveName}`);
+    }
+    await verifyChecksum(archivePath, line.trim().split(/\s+/)[0]);
+
+    onProgress('Extracting Node.js', 75);
+    await extractArchive(archivePath, stagingDirectory);
+
+    // Builds unpack into a single node-<version>-<platform>-<arch> folder
+    const [extracted] = await fs.promises.readdir(stagingDirectory);
+    const versionDirectory = path.join(root, release.version);
+    await fs.promises.rm(versionDirectory, { recursive: true, force: true });
+    await fs.promises.rename(path.join(stagingDirectory, extracted), versionDirectory);
+
+    await writePointer({ version: release.version, installedAt: Date.now() });
+    await removeInactiveVersions(release.version);
+  } finally {
+    await fs.promises.rm(stagingDirectory, { recursive: true, force: true });
+    await fs.promises.rm(archivePath, { force: true });
+  }
+
+  // Installing the toolchain means using it, even if another Node.js was picked before
+  launcherSettings.update({ nodeBinDirectory: '' });
+  applyToolchainEnvironment();
+  onProgress(`Node.js ${release.version} is ready`, 100);
+  return getToolchainStatus();
+}
+
+async function writePointer(pointer: ToolchainPointer): Promise<void> {
+  const pointerFile = path.join(getToolchainRoot(), POINTER_FILE);
+  const tempFile = `${pointerFile}.${process.pid}.tmp`;
+  await fs.promises.writeFile(tempFile, JSON.stringify(pointer, null, 2));
+  await fs.promises.rename(tempFile, pointerFile);
+}
+
+async function removeInactiveVersions(activeVersion: string): Promise<void> {
+  for (const entry of await fs.promises.readdir(getToolchainRoot())) {
+    if (entry !== activeVersion && entry !== POINTER_FILE && /^v\d/.test(entry)) {
+      await fs.promises.rm(path.join(getToolchainRoot(), entry), { recursive: true, force: true });
+    }
+  }
+}
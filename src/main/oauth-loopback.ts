@@ -0,0 +1,111 @@
+import * as http from 'http';
+import * as crypto from 'crypto';
+import { AddressInfo } from 'net';
+
+const CALLBACK_PATH = '/auth/callback';
+const DEFAULT_TIMEOUT_MS = 5 * 60 * 1000;
+
+export interface PkcePair {
+  verifier: string;
+  challenge: string;
+}
+
+export interface LoopbackListener {
+  redirectUri: string;
+  waitForCode: () => Promise<string>;
+  close: () => void;
+}
+
+/**
+ * Random URL-safe string for the OAuth state nonce and PKCE verifier
+ */
+export function randomUrlSafe(bytes: number = 32): string {
+  return crypto.randomBytes(bytes).toString('base64url');
+}
+
+/**
+ * Create a PKCE verifier and its S256 challenge (RFC 7636)
+ */
+export function createPkcePair(): PkcePair {
+  const verifier = randomUrlSafe(32);
+  const challenge = crypto.createHash('sha256').update(verifier).digest('base64url');
+  return { verifier, challenge };
+}
+
+const RESULT_PAGE = (message: string) => `<!DOCTYPE html>
+<html><head><meta charset="utf-8"><title>Toji Launcher</title></head>
+<body style="font-family: sans-serif; text-align: center; padding-top: 60px;">
+<h2>${message}</h2><p>You can close this window and return to the launcher.</p>
+</body></html>`;
+
+/**
+ * Start a short-lived HTTP listener on 127.0.0.1 that receives the OAuth
+ * redirect. Only a request carrying the expected state is accepted, so page
+ * content or other local processes can't inject tokens.
+ */
+export async function startLoopbackListener(expectedState: string, timeoutMs: number = DEFAULT_TIMEOUT_MS): Promise<LoopbackListener> {
+  let settle: { resolve: (code: string) => void; reject: (error: Error) => void } | null = null;
+  let outcome: { code?: string; error?: Error } | null = null;
+
+  const finish = (result: { code?: string; error?: Error }) => {
+    if (outcome) return;
+    outcome = result;
+    clearTimeout(timer);
+    server.close();
+    if (settle) {
+      result.error ? settle.reject(result.error) : settle.resolve(result.code!);
+    }
+  };
+
+  const server = http.createServer((req, res) => {
+    const url = new URL(req.url || '/', 'http://127.0.0.1');
+
+    if (url.pathname !== CALLBACK_PATH) {
+      res.writeHead(404).end();
+      return;
+    }
+
+    if (url.searchParams.get('state') !== expectedState) {
+      // Ignore forged callbacks but keep waiting for the real one
+      res.writeHead(400, { 'Content-Type': 'text/html' }).end(RESULT_PAGE('Invalid login callback'));
+      return;
+    }
+
+    const error = url.searchParams.get('error');
+    const code = url.searchParams.get('code');
+
+    if (error || !code) {
+      res.writeHead(400, { 'Content-Type': 'text/html' }).end(RESULT_PAGE('Login failed'));
+      finish({ error: new Error(`Authorization failed: ${error || 'no code returned'}`) });
+      return;
+    }
+
+    res.writeHead(200, { 'Content-Type': 'text/html' }).end(RESULT_PAGE('Login successful'));
+    finish({ code });
+  });
+
+  const timer = setTimeout(() => {
+    finish({ error: new Error('Timed out waiting for login callback') });
+  }, timeoutMs);
+
+  await new Promise<void>((resolve, reject) => {
+    server.once('error', (error) => {
+      clearTimeout(timer);
+      reject(error);
+    });
+    server.listen(0, '127.0.0.1', () => resolve());
+  });
+
+  const { port } = server.address() as AddressInfo;
+
+  return {
+    redirectUri: `http://127.0.0.1:${port}${CALLBACK_PATH}`,
+    waitForCode: () => new Promise<string>((resolve, reject) => {
+      if (outcome) {
+        return outcome.error ? reject(outcome.error) : resolve(outcome.code!);
+      }
+      settle = { resolve, reject };
+    }),
+    close: () => finish({ error: new Error('Login callback listener closed') })
+  };
+}
@@ -0,0 +1,112 @@
+import { LinuxPackageManager } from './linux-package-managers';
+
+export type InstallMethod = LinuxPackageManager | 'nodesource' | 'npm' | 'download' | 'manual';
+
+/**
+ * Strategies already picked for earlier dependencies in the same run, by dependency name
+ */
+export type ChosenStrategies = Record<string, InstallStrategy>;
+
+/**
+ * One way of installing a dependency. Platforms list these most preferred first.
+ */
+export interface InstallStrategy {
+  dependency: string;       // Requirement name, e.g. 'Node.js'
+  name: string;             // Shown in the plan and the install log, e.g. 'NodeSource'
+  method: InstallMethod;
+  requiresSudo: boolean;
+  // Why this strategy can't run here, or null when its preconditions hold
+  checkPreconditions(chosen: ChosenStrategies): Promise<string | null>;
+  install(): Promise<void>;
+  verify(): Promise<boolean>;
+}
+
+export interface StrategyAttempt {
+  dependency: string;
+  strategy: string;
+  outcome: 'skipped' | 'failed' | 'succeeded';
+  reason?: string;
+}
+
+export interface PlannedInstall {
+  dependency: string;
+  strategy: InstallStrategy | null;   // What will run first; null if nothing can
+  fallbacks: InstallStrategy[];       // Tried in order if it fails
+  skipped: StrategyAttempt[];         // Strategies whose preconditions don't hold
+}
+
+/**
+ * Work out which strategy each dependency will start with, without installing anything.
+ * Dependencies are planned in order so later ones see what earlier ones will use.
+ */
+export async function planStrategies(
+  dependencies: string[],
+  getStrategies: (dependency: string) => InstallStrategy[]
+): Promise<PlannedInstall[]> {
+  const chosen: ChosenStrategies = {};
+  const plan: PlannedInstall[] = [];
+
+  for (const dependency of dependencies) {
+    const usable: InstallStrategy[] = [];
+    const skipped: StrategyAttempt[] = [];
+
+    for (const strategy of getStrategies(dependency)) {
+      const reason = await strategy.checkPreconditions(chosen);
+      if (reason) {
+        skipped.push({ dependency, strategy: strategy.name, outcome: 'skipped', reason });
+      } else {
+        usable.push(strategy);
+      }
+    }
+
+    if (usable.length > 0) {
+      chosen[dependency] = usable[0];
+    }
+    plan.push({ dependency, strategy: usable[0] || null, fallbacks: usable.slice(1), skipped });
+  }
+
+  return plan;
+}
+
+/**
+ * Try each strategy in order until one installs the dependency and passes verification.
+ * Every attempt is written to the log; throws with all attempts if none succeeds.
+ */
+export async function runStrategyChain(
+  dependency: string,
+  strategies: InstallStrategy[],
+  chosen: ChosenStrategies,
+  log: (line: string) => void
+): Promise<StrategyAttempt[]> {
+  const attempts: StrategyAttempt[] = [];
+
+  for (const strategy of strategies) {
+    const unavailable = await strategy.checkPreconditions(chosen);
+    if (unavailable) {
+      attempts.push({ dependency, strategy: strategy.name, outcome: 'skipped', reason: unavailable });
+      log(`– Skipping ${dependency} via ${strategy.name}: ${unavailable}`);
+      continue;
+    }
+
+    log(`→ Installing ${dependency} via ${strategy.name}`);
+    try {
+      await strategy.install();
+      if (!(await strategy.verify())) {
+        throw new Error(`${dependency} still isn't available afterwards`);
+      }
+    } catch (error) {
+      const reason = (error as Error).message;
+      attempts.push({ dependency, strategy: strategy.name, outcome: 'failed', reason });
+      log(`✗ ${dependency} via ${strategy.name} failed: ${reason}`);
+      continue;
+    }
+
+    attempts.push({ dependency, strategy: strategy.name, outcome: 'succeeded' });
+    chosen[dependency] = strategy;
+    log(`✓ ${dependency} installed via ${strategy.name}`);
+    return attempts;
+  }
+
+  const summary = attempts.map(attempt => `${attempt.strategy} ${attempt.outcome}: ${attempt.reason}`).join('; ');
+  throw new Error(`Could not install ${dependency}${summary ? ` (${summary})` : ' - no install method for this platform'}`);
+}
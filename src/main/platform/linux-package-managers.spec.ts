@@ -0,0 +1,93 @@
+import { test, beforeEach, afterEach } from 'node:test';
+import * as assert from 'node:assert/strict';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { detectPackageManager, isOnPath, parseOsRelease, readOsRelease } from './linux-package-managers';
+
+// Fixtures are not copied to out/, so read them from the source tree
+const FIXTURES_DIR = path.resolve(__dirname, '../../../src/main/platform/fixtures/os-release');
+
+const osRelease = (distro: string) => readOsRelease(path.join(FIXTURES_DIR, distro));
+
+// Scratch directory for fake PATH entries, removed after each test
+let binDirectory: string;
+
+beforeEach(() => {
+  binDirectory = fs.mkdtempSync(path.join(os.tmpdir(), 'toji-fake-bin-'));
+});
+
+afterEach(() => {
+  fs.rmSync(binDirectory, { recursive: true, force: true });
+});
+
+/**
+ * A fresh PATH directory holding do-nothing executables with these names
+ */
+function fakeBinaries(...names: string[]): string {
+  const directory = fs.mkdtempSync(path.join(binDirectory, 'bin-'));
+  for (const name of names) {
+    fs.writeFileSync(path.join(directory, name), '#!/bin/sh\nexit 0\n', { mode: 0o755 });
+  }
+  return directory;
+}
+
+test('parses quoted and unquoted os-release values', () => {
+  assert.deepEqual(osRelease('debian'), {
+    id: 'debian',
+    idLike: [],
+    prettyName: 'Debian GNU/Linux 12 (bookworm)'
+  });
+  assert.deepEqual(osRelease('opensuse-tumbleweed'), {
+    id: 'opensuse-tumbleweed',
+    idLike: ['opensuse', 'suse'],
+    prettyName: 'openSUSE Tumbleweed'
+  });
+  assert.equal(osRelease('unknown').prettyName, 'Homebrew Linux 1.0');
+});
+
+test('ignores comments and lowercases IDs', () => {
+  const parsed = parseOsRelease('# ID=commented\nID=Ubuntu\nID_LIKE="Debian"\n');
+  assert.equal(parsed.id, 'ubuntu');
+  assert.deepEqual(parsed.idLike, ['debian']);
+});
+
+test('reads an empty release when the os-release file is missing', () => {
+  assert.deepEqual(readOsRelease(path.join(FIXTURES_DIR, 'does-not-exist')), { idLike: [] });
+});
+
+test('picks the package manager each distribution uses', () => {
+  const searchPath = fakeBinaries('apt-get', 'dnf', 'yum', 'pacman', 'zypper', 'apk');
+
+  assert.equal(detectPackageManager(osRelease('debian'), searchPath), 'apt');
+  assert.equal(detectPackageManager(osRelease('fedora'), searchPath), 'dnf');
+  assert.equal(detectPackageManager(osRelease('arch'), searchPath), 'pacman');
+  assert.equal(detectPackageManager(osRelease('opensuse-tumbleweed'), searchPath), 'zypper');
+});
+
+test('falls back to ID_LIKE for derivatives it does not know by ID', () => {
+  const searchPath = fakeBinaries('apt-get', 'dnf', 'yum', 'pacman', 'zypper');
+
+  assert.equal(detectPackageManager(osRelease('linuxmint'), searchPath), 'apt');
+  assert.equal(detectPackageManager(osRelease('rocky'), searchPath), 'dnf');
+});
+
+test('uses yum when a Fedora-like system has no dnf', () => {
+  assert.equal(detectPackageManager(osRelease('rocky'), fakeBinaries('yum')), 'yum');
+});
+
+test('probes PATH when os-release names an unknown distribution', () => {
+  assert.equal(detectPackageManager(osRelease('unknown'), fakeBinaries('zypper')), 'zypper');
+});
+
+test('skips the distribution manager when its binary is missing', () => {
+  assert.equal(detectPackageManager(osRelease('debian'), fakeBinaries('pacman')), 'pacman');
+  assert.equal(detectPackageManager(osRelease('debian'), fakeBinaries()), null);
+});
+
+test('only counts executables as being on PATH', () => {
+  fs.writeFileSync(path.join(binDirectory, 'apt-get'), '', { mode: 0o644 });
+
+  assert.equal(isOnPath('apt-get', binDirectory), false);
+  assert.equal(detectPackageManager(osRelease('debian'), binDirectory), null);
+});
@@ -0,0 +1,132 @@
+import * as fs from 'fs';
+import * as path from 'path';
+
+export type LinuxPackageManager = 'apt' | 'dnf' | 'yum' | 'pacman' | 'zypper' | 'apk';
+
+export interface PackageManagerCommands {
+  binary: string;           // Executable that must be on PATH
+  refresh?: string;         // Update package metadata before installing
+  installNodeJS: string;    // Install Node.js together with npm
+}
+
+/**
+ * How to install Node.js and npm with each supported package manager
+ */
+export const PACKAGE_MANAGER_COMMANDS: Record<LinuxPackageManager, PackageManagerCommands> = {
+  apt: {
+    binary: 'apt-get',
+    refresh: 'apt-get update',
+    installNodeJS: 'apt-get install -y nodejs npm'
+  },
+  dnf: {
+    binary: 'dnf',
+    installNodeJS: 'dnf install -y nodejs npm'
+  },
+  yum: {
+    binary: 'yum',
+    installNodeJS: 'yum install -y nodejs npm'
+  },
+  pacman: {
+    binary: 'pacman',
+    // --needed skips reinstalling; no -Sy so we never cause a partial upgrade
+    installNodeJS: 'pacman -S --noconfirm --needed nodejs npm'
+  },
+  zypper: {
+    binary: 'zypper',
+    refresh: 'zypper --non-interactive refresh',
+    installNodeJS: 'zypper --non-interactive install nodejs-default npm-default'
+  },
+  apk: {
+    binary: 'apk',
+    refresh: 'apk update',
+    installNodeJS: 'apk add nodejs npm'
+  }
+};
+
+// os-release ID / ID_LIKE values and the managers they use, most preferred first
+const DISTRO_PACKAGE_MANAGERS: Record<string, LinuxPackageManager[]> = {
+  debian: ['apt'],
+  ubuntu: ['apt'],
+  fedora: ['dnf', 'yum'],
+  rhel: ['dnf', 'yum'],
+  centos: ['dnf', 'yum'],
+  rocky: ['dnf', 'yum'],
+  almalinux: ['dnf', 'yum'],
+  amzn: ['dnf', 'yum'],
+  arch: ['pacman'],
+  manjaro: ['pacman'],
+  endeavouros: ['pacman'],
+  suse: ['zypper'],
+  opensuse: ['zypper'],
+  'opensuse-leap': ['zypper'],
+  'opensuse-tumbleweed': ['zypper'],
+  sles: ['zypper'],
+  alpine: ['apk']
+};
+
+// Probe order when os-release doesn't name a distribution we know
+const FALLBACK_ORDER: LinuxPackageManager[] = ['apt', 'dnf', 'yum', 'pacman', 'zypper', 'apk'];
+
+export interface OsRelease {
+  id?: string;
+  idLike: string[];
+  prettyName?: string;
+}
+
+/**
+ * Parse the KEY=value lines of an os-release file
+ */
+export function parseOsRelease(content: string): OsRelease {
+  const fields: Record<string, string> = {};
+  for (const line of content.split('\n')) {
+    const match = line.match(/^([A-Z_]+)=(.*)$/);
+    if (match) {
+      fields[match[1]] = match[2].trim().replace(/^(["'])(.*)\1$/, '$2');
+    }
+  }
+
+  return {
+    id: fields.ID?.toLowerCase(),
+    idLike: (fields.ID_LIKE || '').toLowerCase().split(/\s+/).filter(Boolean),
+    prettyName: fields.PRETTY_NAME
+  };
+}
+
+export function readOsRelease(osReleasePath: string = '/etc/os-release'): OsRelease {
+  try {
+    return parseOsRelease(fs.readFileSync(osReleasePath, 'utf8'));
+  } catch {
+    return { idLike: [] };
+  }
+}
+
+/**
+ * Whether an executable with this name exists on the given PATH
+ */
+export function isOnPath(binary: string, searchPath: string = process.env.PATH || ''): boolean {
+  return searchPath.split(path.delimiter).filter(Boolean).some(directory => {
+    try {
+      fs.accessSync(path.join(directory, binary), fs.constants.X_OK);
+      return true;
+    } catch {
+      return false;
+    }
+  });
+}
+
+/**
+ * Pick the package manager for this distribution: the ones os-release's ID and
+ * ID_LIKE point to first, then any supported manager found on PATH
+ */
+export function detectPackageManager(
+  osRelease: OsRelease = readOsRelease(),
+  searchPath: string = process.env.PATH || ''
+): LinuxPackageManager | null {
+  const distroIds = [osRelease.id, ...osRelease.idLike].filter((id): id is string => !!id);
+  const candidates = [
+    ...distroIds.flatMap(id => DISTRO_PACKAGE_MANAGERS[id] || []),
+    ...FALLBACK_ORDER
+  ];
+
+  return candidates.find(manager => isOnPath(PACKAGE_MANAGER_COMMANDS[manager].binary, searchPath)) || null;
+}
@@ -1,11 +1,23 @@
 import { spawn } from 'child_process';
 import { promisify } from 'util';
 import * as path from 'path';
-import * as https from 'https';
 import * as fs from 'fs';
 import * as os from 'os';
 import { PlatformService, OSInfo, SystemCapabilities, InstallProgress } from './platform-service';
 import { InstallScriptBuilder } from '../install-script-builder';
+import { downloadToFile } from '../download-client';
+import { installToolchain } from '../node-toolchain';
+import {
+  LinuxPackageManager,
+  PACKAGE_MANAGER_COMMANDS,
+  detectPackageManager,
+  isOnPath,
+  readOsRelease
+} from './linux-package-managers';
+import { ChosenStrategies, InstallStrategy, runStrategyChain } from './install-strategies';
+import { findNodeInstallations } from './node-installations';
+import { NodeInstallation } from '../../types';
+import { RequirementCheck, RequirementDefinition, checkCommandRequirement, getRequirement } from '../requirements';
 
 const execAsync = promisify(require('child_process').exec);
 
@@ -13,10 +25,10 @@ const execAsync = promisify(require('child_process').exec);
  * Linux-specific platform service implementation
  * 
  * This class handles all Linux-specific operations including:
- * - APT package management
+ * - Package management via apt, dnf, yum, pacman, zypper or apk
  * - pkexec/sudo privilege escalation
- * - Linux distribution detection
- * - Debian/Ubuntu-specific installation paths
+ * - The launcher-managed Node.js toolchain when no system install works
+ * - Linux distribution detection from /etc/os-release
  */
 export class LinuxPlatformService extends PlatformService {
   private currentProgress?: InstallProgress;
@@ -28,6 +40,10 @@ export class LinuxPlatformService extends PlatformService {
     }
   }
 
+  private appendLog(line: string): void {
+    this.updateProgress({ logOutput: [...(this.currentProgress?.logOutput || []), line] });
+  }
+
   async getOSInfo(): Promise<OSInfo> {
     const platform = os.platform();
     const release = os.release();
@@ -45,17 +61,10 @@ export class LinuxPlatformService extends PlatformService {
       // Try to get Linux distribution info
       let distroInfo = 'Linux';
       
-      try {
-        // Check /etc/os-release for distribution info
-        if (fs.existsSync('/etc/os-release')) {
-          const osRelease = fs.readFileSync('/etc/os-release', 'utf8');
-          const nameMatch = osRelease.match(/PRETTY_NAME="([^"]+)"/);
-          if (nameMatch) {
-            distroInfo = nameMatch[1];
-          }
-        }
-      } catch (error) {
-        // Could not read distribution info, use generic 'Linux'
+      // Check /etc/os-release for distribution info
+      const osRelease = readOsRelease();
+      if (osRelease.prettyName) {
+        distroInfo = osRelease.prettyName;
       }
 
       return {
@@ -81,13 +90,11 @@ export class LinuxPlatformService extends PlatformService {
       canInstallSystemPackages: false
     };
 
-    try {
-      // Check for apt (Debian/Ubuntu package manager)
-      await execAsync('which apt');
+    // Package manager for this distribution (os-release ID/ID_LIKE, then whatever is on PATH)
+    const packageManager = detectPackageManager();
+    if (packageManager) {
       capabilities.hasPackageManager = true;
-      capabilities.packageManagerName = 'apt';
-    } catch {
-      // apt not available - could check for yum, dnf, etc. in the future
+      capabilities.packageManagerName = packageManager;
     }
 
     try {
@@ -117,51 +124,73 @@ export class LinuxPlatformService extends PlatformService {
     return path.join(os.homedir(), '.toji-launcher');
   }
 
-  async checkNodeJS(): Promise<{ found: boolean; version?: string; details?: string }> {
-    try {
-      const { stdout: versionOutput } = await execAsync('node --version');
-      const version = versionOutput.trim();
-      
-      // Check if version is acceptable (v14+ recommended for Claude Code)
-      const versionNumber = parseInt(version.substring(1).split('.')[0]);
-      const isAcceptableVersion = versionNumber >= 14;
-      
-      if (!isAcceptableVersion) {
-        return {
-          found: false,
-          version,
-          details: `Found Node.js ${version} but v14+ is required`
-        };
-      }
-      
-      return {
-        found: true,
-        version,
-        details: `Node.js ${version} is installed`
-      };
-    } catch (error) {
-      return {
-        found: false,
-        details: 'Node.js is not installed'
-      };
+  async checkRequirement(definition: RequirementDefinition): Promise<RequirementCheck> {
+    const check = await checkCommandRequirement(definition);
+    if (definition.name !== 'Node.js' || check.status === 'found') {
+      return check;
     }
+
+    // The node the launcher runs isn't usable - point out installations it could switch to
+    const others = (await this.findNodeInstallations()).filter(installation => installation.supported);
+    if (others.length > 0) {
+      check.details += `. ${others.length} other usable installation(s) were found: ` +
+        others.map(installation => `${installation.version} (${installation.source})`).join(', ');
+    }
+    return check;
   }
 
-  async checkClaudeCode(): Promise<{ found: boolean; version?: string; details?: string }> {
-    try {
-      const { stdout: versionOutput } = await execAsync('claude --version');
-      const version = versionOutput.trim();
-      
-      return {
-        found: true,
-        version,
-        details: `Claude Code CLI ${version} is installed`
-      };
-    } catch (error) {
-      return {
-        found: false,
-        details: 'Claude Code CLI is not installed'
-      };
+  async checkNodeJS(): Promise<{ found: boolean; outdated?: boolean; version?: string; details?: string }> {
+    const check = await this.checkRequirement(getRequirement('Node.js'));
+    return { found: check.status === 'found', outdated: check.status === 'outdated', version: check.version, details: check.details };
+  }
+
+  async findNodeInstallations(): Promise<NodeInstallation[]> {
+    return await findNodeInstallations();
+  }
+
+  async checkClaudeCode(): Promise<{ found: boolean; outdated?: boolean; version?: string; details?: string }> {
+    const check = await this.checkRequirement(getRequirement('Claude Code CLI'));
+    return { found: check.status === 'found', outdated: check.status === 'outdated', version: check.version, details: check.details };
+  }
+
+  getInstallStrategies(dependency: string): InstallStrategy[] {
+    const packageManager = detectPackageManager();
+
+    switch (dependency) {
+      case 'Node.js':
+        return [
+          ...(packageManager ? [this.packageManagerStrategy(packageManager)] : []),
+          this.nodeSourceStrategy(packageManager),
+          {
+            dependency,
+            name: 'launcher-managed Node.js',
+            method: 'download',
+            requiresSudo: false,
+            checkPreconditions: async () => null,
+            install: async () => {
+              await installToolchain((step, progress) => this.updateProgress({ step, progress }));
+            },
+            verify: async () => (await this.checkNodeJS()).found
+          }
+        ];
+
+      case 'Claude Code CLI':
+        return [
+          {
+            dependency,
+            name: 'npm (user install)',
+            method: 'npm',
+            requiresSudo: false,
+            // Global installs go to the launcher's own npm prefix, so npm itself is all we need
+            checkPreconditions: async (chosen) =>
+              chosen['Node.js'] || isOnPath('npm') ? null : 'npm is not installed',
+            install: () => this.runCommand('npm install -g @anthropic-ai/claude-code', 'Installing Claude Code CLI'),
+            verify: async () => (await this.checkClaudeCode()).found
+          }
+        ];
+
+      default:
+        return [];
     }
   }
 
@@ -169,60 +198,22 @@ export class LinuxPlatformService extends PlatformService {
     this.updateProgress({
       step: 'Preparing installation',
       progress: 0,
-      details: 'Building installation script...',
+      details: 'Choosing installation methods...',
       logOutput: []
     });
 
-    const builder = new InstallScriptBuilder();
-    
-    // Add all required commands based on what's missing
-    if (missingDeps.includes('Node.js')) {
-      // Try apt-get approach (most common on Ubuntu/Debian)
-      builder.addCommand('apt-get update', 'Updating package list', true);
-      builder.addCommand('apt-get install -y nodejs npm', 'Installing Node.js and npm', true);
-    }
-    
-    if (missingDeps.includes('Claude Code CLI')) {
-      // Install Claude Code after Node.js
-      builder.addCommand(
-        'npm install -g @anthropic-ai/claude-code',
-        'Installing Claude Code CLI',
-        true
-      );
-    }
-    
-    // Build and run the combined script
-    const scriptPath = await builder.saveToFile();
-    
-    try {
-      await this.runInstallScript(scriptPath, 'Installing all dependencies');
-      
-      // Verify installations
-      if (missingDeps.includes('Node.js')) {
-        try {
-          await execAsync('node --version');
-        } catch {
-          throw new Error('Node.js installation verification failed');
-        }
-      }
-      
-      if (missingDeps.includes('Claude Code CLI')) {
-        try {
-          await execAsync('claude --version');
-        } catch {
-          throw new Error('Claude Code CLI installation verification failed');
-        }
-      }
-      
-      this.updateProgress({
-        step: 'Installation complete',
-        progress: 100,
-        details: 'All dependencies installed successfully'
-      });
-    } finally {
-      // Cleanup
-      await fs.promises.unlink(scriptPath);
+    // Each dependency runs its own strategy chain so a failed method can fall back to the next
+    const chosen: ChosenStrategies = {};
+    for (const dependency of missingDeps) {
+      this.updateProgress({ step: `Installing ${dependency}`, progress: 0 });
+      await runStrategyChain(dependency, this.getInstallStrategies(dependency), chosen, line => this.appendLog(line));
     }
+
+    this.updateProgress({
+      step: 'Installation complete',
+      progress: 100,
+      details: 'All dependencies installed successfully'
+    });
   }
 
   async installNodeJS(): Promise<void> {
@@ -233,103 +224,82 @@ export class LinuxPlatformService extends PlatformService {
       logOutput: []
     });
 
-    try {
-      // Try apt-get first
-      await this.installNodeJSWithApt();
-    } catch (aptError) {
-      // apt-get failed, trying NodeSource
-      try {
-        await this.installNodeJSWithNodeSource();
-      } catch (nodeSourceError) {
-        // NodeSource failed, trying portable
-        await this.installPortableNodeJS();
-      }
-    }
+    await runStrategyChain('Node.js', this.getInstallStrategies('Node.js'), {}, line => this.appendLog(line));
   }
 
-  private async installNodeJSWithApt(): Promise<void> {
-    const builder = new InstallScriptBuilder();
-    
-    // Update package list and install Node.js
-    builder.addCommand('apt-get update', 'Updating package list', true);
-    builder.addCommand('apt-get install -y nodejs npm', 'Installing Node.js and npm via apt', true);
-    
-    const scriptPath = await builder.saveToFile();
-    await this.runInstallScript(scriptPath, 'Installing Node.js via apt-get');
-    
-    // Cleanup
-    await fs.promises.unlink(scriptPath);
+  private packageManagerStrategy(packageManager: LinuxPackageManager): InstallStrategy {
+    const commands = PACKAGE_MANAGER_COMMANDS[packageManager];
+
+    return {
+      dependency: 'Node.js',
+      name: packageManager,
+      method: packageManager,
+      requiresSudo: true,
+      checkPreconditions: async () => this.checkPkexec(),
+      install: () => this.runSudoCommands(
+        [
+          // Refresh package metadata where the manager needs it
+          ...(commands.refresh ? [[commands.refresh, 'Updating package list'] as [string, string]] : []),
+          [commands.installNodeJS, `Installing Node.js and npm via ${packageManager}`]
+        ],
+        `Installing Node.js via ${packageManager}`
+      ),
+      verify: async () => (await this.checkNodeJS()).found
+    };
   }
 
-  private async installNodeJSWithNodeSource(): Promise<void> {
-    const builder = new InstallScriptBuilder();
-    
-    // NodeSource installation script
-    builder.addCommand(
-      'curl -fsSL https://deb.nodesource.com/setup_lts.x | bash -',
-      'Adding NodeSource repository',
-      true
-    );
-    builder.addCommand('apt-get install -y nodejs', 'Installing Node.js from NodeSource', true);
-    
-    const scriptPath = await builder.saveToFile();
-    await this.runInstallScript(scriptPath, 'Installing Node.js via NodeSource');
-    
-    // Cleanup
-    await fs.promises.unlink(scriptPath);
+  private nodeSourceStrategy(packageManager: LinuxPackageManager | null): InstallStrategy {
+    // NodeSource only publishes deb and rpm repositories
+    const nodeSource = packageManager === 'apt'
+      ? { setupUrl: 'https://deb.nodesource.com/setup_lts.x', install: 'apt-get install -y nodejs' }
+      : packageManager === 'dnf' || packageManager === 'yum'
+        ? { setupUrl: 'https://rpm.nodesource.com/setup_lts.x', install: `${packageManager} install -y nodejs` }
+        : null;
+
+    return {
+      dependency: 'Node.js',
+      name: 'NodeSource',
+      method: 'nodesource',
+      requiresSudo: true,
+      checkPreconditions: async () => {
+        if (!nodeSource) return `NodeSource does not support ${packageManager || 'this distribution'}`;
+        if (!isOnPath('curl')) return 'curl is not installed';
+        return this.checkPkexec();
+      },
+      install: () => this.runSudoCommands(
+        [
+          [`curl -fsSL ${nodeSource!.setupUrl} | bash -`, 'Adding NodeSource repository'],
+          [nodeSource!.install, 'Installing Node.js from NodeSource']
+        ],
+        'Installing Node.js via NodeSource'
+      ),
+      verify: async () => (await this.checkNodeJS()).found
+    };
   }
 
-  private async installPortableNodeJS(): Promise<void> {
-    const appDataPath = this.getAppDataPath();
-    const nodePath = path.join(appDataPath, 'node');
-    
-    this.updateProgress({
-      step: 'Downloading portable Node.js',
-      progress: 30,
-      currentCommand: 'Downloading Node.js LTS...'
-    });
-
-    // Create app data directory
-    await fs.promises.mkdir(appDataPath, { recursive: true });
-
-    // Download Node.js binary
-    const nodeVersion = 'v20.11.0'; // LTS version as of Jan 2024
-    const platform = 'linux'; // We know we're on Linux
-    const arch = process.arch;
-    const nodeUrl = `https://nodejs.org/dist/${nodeVersion}/node-${nodeVersion}-${platform}-${arch}.tar.gz`;
-
-    const tarPath = path.join(appDataPath, 'node.tar.gz');
-    
-    // Download the tar file
-    await this.downloadFile(nodeUrl, tarPath);
-
-    this.updateProgress({
-      step: 'Extracting Node.js',
-      progress: 60
-    });
+  /**
+   * The install scripts elevate with pkexec, so sudo alone isn't enough
+   */
+  private checkPkexec(): string | null {
+    return isOnPath('pkexec') ? null : 'pkexec is not available for administrator access';
+  }
 
-    // Extract the tar file
-    await execAsync(`tar -xzf ${tarPath} -C ${appDataPath}`);
-    
-    // Move to simpler path
-    const extractedDir = path.join(appDataPath, `node-${nodeVersion}-${platform}-${arch}`);
-    if (fs.existsSync(nodePath)) {
-      await fs.promises.rm(nodePath, { recursive: true });
+  /**
+   * Run commands as root through a single pkexec prompt
+   */
+  private async runSudoCommands(commands: Array<[string, string]>, description: string): Promise<void> {
+    const builder = new InstallScriptBuilder();
+    for (const [command, commandDescription] of commands) {
+      builder.addCommand(command, commandDescription, true);
     }
-    await fs.promises.rename(extractedDir, nodePath);
-
-    // Add to PATH for this process
-    const binPath = path.join(nodePath, 'bin');
-    process.env.PATH = `${binPath}:${process.env.PATH}`;
-
-    this.updateProgress({
-      step: 'Node.js installation complete',
-      progress: 100,
-      details: `Installed portable Node.js to ${nodePath}`
-    });
 
-    // Clean up tar file
-    await fs.promises.unlink(tarPath);
+    const scriptPath = await builder.saveToFile();
+    try {
+      await this.runInstallScript(scriptPath, description);
+    } finally {
+      // Cleanup
+      await fs.promises.unlink(scriptPath);
+    }
   }
 
   async installClaudeCode(): Promise<void> {
@@ -340,43 +310,17 @@ export class LinuxPlatformService extends PlatformService {
       logOutput: []
     });
 
-    try {
-      // First try to install without sudo (if npm is configured for user installs)
-      await this.runCommand('npm install -g @anthropic-ai/claude-code', 'Installing Claude Code CLI');
-      
-      // Verify installation
-      await execAsync('claude --version');
-      
-      this.updateProgress({
-        step: 'Claude Code CLI installation complete',
-        progress: 100
-      });
-    } catch (error) {
-      // If that fails, try with sudo
-      const builder = new InstallScriptBuilder();
-      builder.addCommand(
-        'npm install -g @anthropic-ai/claude-code',
-        'Installing Claude Code CLI globally',
-        true
-      );
-      
-      const scriptPath = await builder.saveToFile();
-      
-      try {
-        await this.runInstallScript(scriptPath, 'Installing Claude Code CLI with sudo');
-        
-        // Verify installation
-        await execAsync('claude --version');
-        
-        this.updateProgress({
-          step: 'Claude Code CLI installation complete',
-          progress: 100
-        });
-      } finally {
-        // Cleanup
-        await fs.promises.unlink(scriptPath);
-      }
-    }
+    await runStrategyChain(
+      'Claude Code CLI',
+      this.getInstallStrategies('Claude Code CLI'),
+      {},
+      line => this.appendLog(line)
+    );
+
+    this.updateProgress({
+      step: 'Claude Code CLI installation complete',
+      progress: 100
+    });
   }
 
   async runElevatedCommand(command: string, description: string): Promise<void> {
@@ -394,30 +338,7 @@ export class LinuxPlatformService extends PlatformService {
   }
 
   async downloadFile(url: string, destination: string): Promise<void> {
-    return new Promise((resolve, reject) => {
-      const file = fs.createWriteStream(destination);
-      
-      https.get(url, (response) => {
-        if (response.statusCode === 302 || response.statusCode === 301) {
-          // Handle redirect
-          file.close();
-          this.downloadFile(response.headers.location!, destination)
-            .then(resolve)
-            .catch(reject);
-          return;
-        }
-
-        response.pipe(file);
-        
-        file.on('finish', () => {
-          file.close();
-          resolve();
-        });
-      }).on('error', (err) => {
-        fs.unlink(destination, () => {}); // Delete partial file
-        reject(err);
-      });
-    });
+    await downloadToFile(url, destination);
   }
 
   /**
@@ -1,4 +1,7 @@
 import { PlatformService, OSInfo, SystemCapabilities, InstallProgress } from './platform-service';
+import { InstallStrategy } from './install-strategies';
+import { NodeInstallation } from '../../types';
+import { RequirementCheck, RequirementDefinition } from '../requirements';
 
 /**
  * macOS-specific platform service implementation
@@ -34,6 +37,16 @@ export class MacOSPlatformService extends PlatformService {
     return process.env.HOME + '/Library/Application Support/Toji Launcher' || '/Users/Default/Library/Application Support/Toji Launcher';
   }
 
+  async checkRequirement(definition: RequirementDefinition): Promise<RequirementCheck> {
+    // TODO: Implement macOS requirement detection
+    // 1. Run definition.command (checkCommandRequirement works once PATH lookup is verified here)
+    // 2. Compare the version against getRequirementRange(definition)
+    return {
+      status: 'missing',
+      details: `macOS ${definition.name} detection not yet implemented`
+    };
+  }
+
   async checkNodeJS(): Promise<{ found: boolean; version?: string; details?: string }> {
     // TODO: Implement macOS Node.js detection
     // 1. Check if 'node' command exists in PATH
@@ -45,6 +58,13 @@ export class MacOSPlatformService extends PlatformService {
     };
   }
 
+  async findNodeInstallations(): Promise<NodeInstallation[]> {
+    // TODO: Implement macOS Node.js discovery
+    // 1. Scan nvm, fnm, volta, asdf and Homebrew install folders
+    // 2. Run each node --version and mark the one on PATH as active
+    return [];
+  }
+
   async checkClaudeCode(): Promise<{ found: boolean; version?: string; details?: string }> {
     // TODO: Implement macOS Claude Code detection
     // 1. Check if 'claude' command exists in PATH
@@ -55,6 +75,12 @@ export class MacOSPlatformService extends PlatformService {
     };
   }
 
+  getInstallStrategies(dependency: string): InstallStrategy[] {
+    // TODO: Add macOS install strategies (see installNodeJS / installClaudeCode below)
+    // Until then the installation plan marks every dependency as manual
+    return [];
+  }
+
   async installNodeJS(): Promise<void> {
     // TODO: Implement macOS Node.js installation
     // 1. Download Node.js PKG installer from https://nodejs.org/dist/latest-v20.x/
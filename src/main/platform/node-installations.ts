@@ -0,0 +1,123 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { execFile } from 'child_process';
+import { promisify } from 'util';
+import { getToolchainStatus } from '../node-toolchain';
+import { satisfiesRange } from '../version-utils';
+import { getRequirement, getRequirementRange } from '../requirements';
+import { NodeInstallation, NodeInstallationSource } from '../../types';
+
+const execFileAsync = promisify(execFile);
+
+const VERSION_CHECK_TIMEOUT_MS = 5000;
+
+/**
+ * Subdirectories of a version manager's install folder, one per Node.js version
+ */
+function listVersionDirectories(directory: string): string[] {
+  try {
+    return fs.readdirSync(directory, { withFileTypes: true })
+      .filter(entry => entry.isDirectory() || entry.isSymbolicLink())
+      .map(entry => path.join(directory, entry.name));
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * Candidate bin directories for each version manager, from its env override or default location.
+ * Version managers hook into interactive shells, so a launcher started from a desktop
+ * entry usually can't see them on PATH.
+ */
+function getManagedBinDirectories(): Array<{ source: NodeInstallationSource; binDirectory: string }> {
+  const home = os.homedir();
+  const env = process.env;
+  const dataHome = env.XDG_DATA_HOME || path.join(home, '.local', 'share');
+  const found: Array<{ source: NodeInstallationSource; binDirectory: string }> = [];
+  const add = (source: NodeInstallationSource, binDirectories: string[]) => {
+    binDirectories.forEach(binDirectory => found.push({ source, binDirectory }));
+  };
+
+  const toolchain = getToolchainStatus();
+  if (toolchain.binDirectory) {
+    add('launcher', [toolchain.binDirectory]);
+  }
+
+  const nvmDir = env.NVM_DIR || path.join(home, '.nvm');
+  add('nvm', listVersionDirectories(path.join(nvmDir, 'versions', 'node')).map(dir => path.join(dir, 'bin')));
+
+  for (const fnmDir of [env.FNM_DIR, path.join(dataHome, 'fnm'), path.join(home, '.fnm')]) {
+    if (!fnmDir) continue;
+    add('fnm', listVersionDirectories(path.join(fnmDir, 'node-versions')).map(dir => path.join(dir, 'installation', 'bin')));
+  }
+
+  // Volta's own bin/node is a shim that needs VOLTA_HOME; the unpacked images run directly
+  const voltaHome = env.VOLTA_HOME || path.join(home, '.volta');
+  add('volta', listVersionDirectories(path.join(voltaHome, 'tools', 'image', 'node')).map(dir => path.join(dir, 'bin')));
+
+  const asdfDir = env.ASDF_DATA_DIR || path.join(home, '.asdf');
+  add('asdf', listVersionDirectories(path.join(asdfDir, 'installs', 'nodejs')).map(dir => path.join(dir, 'bin')));
+
+  for (const brewPrefix of [env.HOMEBREW_PREFIX, '/home/linuxbrew/.linuxbrew', path.join(home, '.linuxbrew')]) {
+    if (!brewPrefix) continue;
+    const versioned = listVersionDirectories(path.join(brewPrefix, 'opt'))
+      .filter(dir => /^node(@\d+)?$/.test(path.basename(dir)))
+      .map(dir => path.join(dir, 'bin'));
+    add('homebrew', [path.join(brewPrefix, 'bin'), ...versioned]);
+  }
+
+  return found;
+}
+
+function resolveNode(binDirectory: string): string | null {
+  try {
+    const nodePath = path.join(binDirectory, 'node');
+    fs.accessSync(nodePath, fs.constants.X_OK);
+    return fs.realpathSync(nodePath);
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Every Node.js the launcher can find - version managers, Homebrew, the launcher's own
+ * toolchain and PATH - with its version and whether it is the one the launcher uses now
+ */
+export async function findNodeInstallations(): Promise<NodeInstallation[]> {
+  const pathDirectories = (process.env.PATH || '').split(path.delimiter).filter(Boolean);
+  const activeNode = pathDirectories.map(resolveNode).find(Boolean) || null;
+
+  const candidates = [
+    ...getManagedBinDirectories(),
+    ...pathDirectories.map(binDirectory => ({ source: 'path' as const, binDirectory }))
+  ];
+
+  const requiredRange = getRequirementRange(getRequirement('Node.js')) || '*';
+  const installations: NodeInstallation[] = [];
+  const seen = new Set<string>();
+
+  for (const { source, binDirectory } of candidates) {
+    const nodePath = resolveNode(binDirectory);
+    if (!nodePath || seen.has(nodePath)) continue;
+    seen.add(nodePath);
+
+    try {
+      const { stdout } = await execFileAsync(path.join(binDirectory, 'node'), ['--version'], {
+        timeout: VERSION_CHECK_TIMEOUT_MS
+      });
+      const version = stdout.trim();
+      installations.push({
+        source,
+        version,
+        binDirectory,
+        supported: satisfiesRange(version, requiredRange),
+        active: nodePath === activeNode
+      });
+    } catch {
+      // Broken or foreign-architecture binary - not a usable candidate
+    }
+  }
+
+  return installations;
+}
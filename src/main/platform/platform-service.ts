@@ -5,6 +5,10 @@
  * Each platform (Linux, Windows, macOS) will have its own implementation.
  */
 
+import { InstallStrategy, PlannedInstall, planStrategies } from './install-strategies';
+import { NodeInstallation } from '../../types';
+import { RequirementCheck, RequirementDefinition } from '../requirements';
+
 export interface OSInfo {
   supported: boolean;
   platform: string;
@@ -55,15 +59,37 @@ export abstract class PlatformService {
    */
   abstract getAppDataPath(): string;
 
+  /**
+   * Detect a command requirement and check its version against the required range
+   */
+  abstract checkRequirement(definition: RequirementDefinition): Promise<RequirementCheck>;
+
   /**
    * Check if Node.js is installed and meets requirements
    */
-  abstract checkNodeJS(): Promise<{ found: boolean; version?: string; details?: string }>;
+  abstract checkNodeJS(): Promise<{ found: boolean; outdated?: boolean; version?: string; details?: string }>;
+
+  /**
+   * Find every Node.js installation on this machine, including ones outside the launcher's PATH
+   */
+  abstract findNodeInstallations(): Promise<NodeInstallation[]>;
 
   /**
    * Check if Claude Code CLI is installed
    */
-  abstract checkClaudeCode(): Promise<{ found: boolean; version?: string; details?: string }>;
+  abstract checkClaudeCode(): Promise<{ found: boolean; outdated?: boolean; version?: string; details?: string }>;
+
+  /**
+   * Ways to install a dependency on this platform, most preferred first
+   */
+  abstract getInstallStrategies(dependency: string): InstallStrategy[];
+
+  /**
+   * Which strategy each dependency will start with - the same chain the install methods run
+   */
+  async planInstallation(dependencies: string[]): Promise<PlannedInstall[]> {
+    return await planStrategies(dependencies, dependency => this.getInstallStrategies(dependency));
+  }
 
   /**
    * Install Node.js using platform-appropriate methods
@@ -1,4 +1,7 @@
 import { PlatformService, OSInfo, SystemCapabilities, InstallProgress } from './platform-service';
+import { InstallStrategy } from './install-strategies';
+import { NodeInstallation } from '../../types';
+import { RequirementCheck, RequirementDefinition } from '../requirements';
 
 /**
  * Windows-specific platform service implementation
@@ -34,6 +37,16 @@ export class WindowsPlatformService extends PlatformService {
     return process.env.APPDATA + '\\Toji Launcher' || 'C:\\Users\\Default\\AppData\\Roaming\\Toji Launcher';
   }
 
+  async checkRequirement(definition: RequirementDefinition): Promise<RequirementCheck> {
+    // TODO: Implement Windows requirement detection
+    // 1. Run definition.command (checkCommandRequirement works once PATH lookup is verified here)
+    // 2. Compare the version against getRequirementRange(definition)
+    return {
+      status: 'missing',
+      details: `Windows ${definition.name} detection not yet implemented`
+    };
+  }
+
   async checkNodeJS(): Promise<{ found: boolean; version?: string; details?: string }> {
     // TODO: Implement Windows Node.js detection
     // 1. Check if 'node' command exists in PATH
@@ -45,6 +58,13 @@ export class WindowsPlatformService extends PlatformService {
     };
   }
 
+  async findNodeInstallations(): Promise<NodeInstallation[]> {
+    // TODO: Implement Windows Node.js discovery
+    // 1. Scan nvm-windows, volta and fnm install folders
+    // 2. Run each node --version and mark the one on PATH as active
+    return [];
+  }
+
   async checkClaudeCode(): Promise<{ found: boolean; version?: string; details?: string }> {
     // TODO: Implement Windows Claude Code detection
     // 1. Check if 'claude' command exists in PATH
@@ -56,6 +76,12 @@ export class WindowsPlatformService extends PlatformService {
     };
   }
 
+  getInstallStrategies(dependency: string): InstallStrategy[] {
+    // TODO: Add Windows install strategies (see installNodeJS / installClaudeCode below)
+    // Until then the installation plan marks every dependency as manual
+    return [];
+  }
+
   async installNodeJS(): Promise<void> {
     // TODO: Implement Windows Node.js installation
     // 1. Download Node.js MSI installer from https://nodejs.org/dist/latest-v20.x/
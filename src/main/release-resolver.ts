@@ -0,0 +1,337 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import type { BotRelease } from './bot-downloader';
+import { parseChecksumFile } from './bundle-verifier';
+import { fetchText } from './download-client';
+import { compareVersions } from './version-utils';
+import { ReleaseCompatibility } from '../types';
+
+export const DEFAULT_RELEASES_URL = 'https://api.github.com/repos/Krenuds/toji-launcher/releases/latest';
+
+const FETCH_TIMEOUT_MS = 15000;
+
+/**
+ * One downloadable bundle, normalized from either manifest format
+ */
+export interface ReleaseAsset {
+  name: string;
+  url: string;
+  size: number;
+  platform?: string;
+  arch?: string;
+  checksum?: string;
+  signature?: string;  // base64 detached Ed25519 signature
+}
+
+export interface ReleaseManifest {
+  version: string;
+  notes?: string;
+  minLauncherVersion?: string;
+  maxLauncherVersion?: string;
+  assets: ReleaseAsset[];
+}
+
+interface CachedManifest {
+  sourceUrl: string;
+  fetchedAt: number;
+  manifest: ReleaseManifest;
+}
+
+// Names used in asset file names for each Node platform/arch
+const PLATFORM_ALIASES: Record<string, string[]> = {
+  linux: ['linux'],
+  win32: ['win32', 'windows', 'win'],
+  darwin: ['darwin', 'macos', 'mac', 'osx']
+};
+
+const ARCH_ALIASES: Record<string, string[]> = {
+  x64: ['x64', 'amd64', 'x86_64'],
+  arm64: ['arm64', 'aarch64']
+};
+
+// Checksum and signature files published next to the bundles
+const SIDECAR_PATTERN = /\.(sha256|sha256sum|sig|asc|minisig)$/i;
+
+/**
+ * Release Resolver
+ *
+ * Reads a releases JSON document - either the GitHub Releases API format
+ * (a single release or a list) or a self-hosted manifest - and picks the
+ * bundle for the current OS/arch. The last good response is cached so the
+ * launcher can still resolve a release offline.
+ */
+export class ReleaseResolver {
+  private sourceUrl: string;
+  private cacheFile: string;
+
+  constructor(sourceUrl: string, cacheFile: string) {
+    this.sourceUrl = sourceUrl;
+    this.cacheFile = cacheFile;
+  }
+
+  /**
+   * Resolve the latest release for this machine, falling back to the cache when offline
+   */
+  async resolveLatest(platform: string = process.platform, arch: string = process.arch): Promise<BotRelease> {
+    let manifest: ReleaseManifest;
+
+    try {
+      manifest = await this.fetchManifest();
+      this.writeCache(manifest);
+    } catch (error) {
+      const cached = this.readCache();
+      if (!cached) {
+        throw new Error(`Could not fetch bot releases: ${(error as Error).message}`);
+      }
+      console.warn('Using cached bot release info:', (error as Error).message);
+      manifest = cached.manifest;
+    }
+
+    return await this.toRelease(manifest, platform, arch);
+  }
+
+  /**
+   * Resolve one specific published release, e.g. to reinstall the version already in use.
+   * GitHub ".../releases/latest" sources are looked up by tag instead; a self-hosted
+   * manifest only has its current version.
+   */
+  async resolveVersion(version: string, platform: string = process.platform, arch: string = process.arch): Promise<BotRelease> {
+    let manifest: ReleaseManifest | undefined;
+
+    try {
+      const versionUrl = this.sourceUrl.replace(/\/releases\/latest\/?$/, `/releases/tags/${encodeURIComponent(version)}`);
+      manifest = findManifestVersion(JSON.parse(await fetchText(versionUrl, {
+        headers: { Accept: 'application/vnd.github+json, application/json' },
+        signal: AbortSignal.timeout(FETCH_TIMEOUT_MS)
+      })), version);
+    } catch (error) {
+      const cached = this.readCache();
+      if (cached?.manifest.version === version) {
+        console.warn('Using cached bot release info:', (error as Error).message);
+        manifest = cached.manifest;
+      } else {
+        throw new Error(`Could not fetch bot release ${version}: ${(error as Error).message}`);
+      }
+    }
+
+    if (!manifest) {
+      throw new Error(`Bot release ${version} is no longer published - install the latest release instead`);
+    }
+    return await this.toRelease(manifest, platform, arch);
+  }
+
+  /**
+   * Pick this machine's bundle from a manifest and pull in its checksum and signature
+   */
+  private async toRelease(manifest: ReleaseManifest, platform: string, arch: string): Promise<BotRelease> {
+    const asset = selectAsset(manifest.assets, platform, arch);
+    if (!asset) {
+      throw new Error(`Release ${manifest.version} has no bot bundle for ${platform}-${arch}`);
+    }
+
+    // GitHub releases publish checksum and signature as separate assets
+    let checksum = asset.checksum;
+    if (!checksum) {
+      const checksumFile = await this.fetchSidecar(manifest.assets, `${asset.name}.sha256`);
+      checksum = checksumFile ? parseChecksumFile(checksumFile) : undefined;
+    }
+    const signature = asset.signature || await this.fetchSidecar(manifest.assets, `${asset.name}.sig`);
+
+    return {
+      version: manifest.version,
+      downloadUrl: asset.url,
+      size: asset.size,
+      checksum,
+      signature,
+      notes: manifest.notes,
+      minLauncherVersion: manifest.minLauncherVersion,
+      maxLauncherVersion: manifest.maxLauncherVersion
+    };
+  }
+
+  /**
+   * Fetch a small text file published next to the bundle (checksum or signature)
+   */
+  private async fetchSidecar(assets: ReleaseAsset[], name: string): Promise<string | undefined> {
+    const sidecar = assets.find(asset => asset.name === name);
+    if (!sidecar) return undefined;
+
+    try {
+      const content = await fetchText(sidecar.url, { signal: AbortSignal.timeout(FETCH_TIMEOUT_MS) });
+      return content.trim();
+    } catch (error) {
+      console.warn(`Failed to fetch ${name}:`, (error as Error).message);
+      return undefined;
+    }
+  }
+
+  private async fetchManifest(): Promise<ReleaseManifest> {
+    const content = await fetchText(this.sourceUrl, {
+      headers: { Accept: 'application/vnd.github+json, application/json' },
+      signal: AbortSignal.timeout(FETCH_TIMEOUT_MS)
+    });
+
+    return parseManifest(JSON.parse(content));
+  }
+
+  private readCache(): CachedManifest | null {
+    try {
+      if (!fs.existsSync(this.cacheFile)) return null;
+      const cached: CachedManifest = JSON.parse(fs.readFileSync(this.cacheFile, 'utf8'));
+      // A cache written for a different source would resolve the wrong bot
+      return cached.sourceUrl === this.sourceUrl ? cached : null;
+    } catch (error) {
+      console.error('Failed to read release cache:', error);
+      return null;
+    }
+  }
+
+  private writeCache(manifest: ReleaseManifest): void {
+    try {
+      const cached: CachedManifest = { sourceUrl: this.sourceUrl, fetchedAt: Date.now(), manifest };
+      fs.mkdirSync(path.dirname(this.cacheFile), { recursive: true });
+      fs.writeFileSync(this.cacheFile, JSON.stringify(cached, null, 2));
+    } catch (error) {
+      console.error('Failed to write release cache:', error);
+    }
+  }
+}
+
+/**
+ * Normalize a GitHub release, a list of GitHub releases, or a self-hosted manifest
+ */
+export function parseManifest(data: any): ReleaseManifest {
+  if (Array.isArray(data)) {
+    const latest = data.find(release => !release.draft && !release.prerelease);
+    if (!latest) {
+      throw new Error('Release list contains no published releases');
+    }
+    return parseManifest(latest);
+  }
+
+  if (!data || typeof data !== 'object') {
+    throw new Error('Release document is not a JSON object');
+  }
+
+  // GitHub Releases API
+  if (typeof data.tag_name === 'string') {
+    const assets: any[] = Array.isArray(data.assets) ? data.assets : [];
+    return {
+      version: data.tag_name,
+      notes: data.body || undefined,
+      // GitHub releases declare compatibility in the release notes
+      minLauncherVersion: findLauncherBound(data.body, 'min'),
+      maxLauncherVersion: findLauncherBound(data.body, 'max'),
+      assets: assets.map(asset => ({
+        name: asset.name,
+        url: asset.browser_download_url,
+        size: asset.size
+      }))
+    };
+  }
+
+  // Self-hosted manifest
+  if (typeof data.version === 'string' && Array.isArray(data.assets)) {
+    return {
+      version: data.version,
+      notes: data.notes,
+      minLauncherVersion: data.minLauncherVersion,
+      maxLauncherVersion: data.maxLauncherVersion,
+      assets: data.assets.map((asset: any) => ({
+        name: asset.name || path.basename(new URL(asset.url).pathname),
+        url: asset.url,
+        size: asset.size,
+        platform: asset.platform,
+        arch: asset.arch,
+        checksum: asset.sha256,
+        signature: asset.signature
+      }))
+    };
+  }
+
+  throw new Error('Unrecognized release document format');
+}
+
+/**
+ * The manifest for one version out of a release document, or undefined if it isn't in it
+ */
+function findManifestVersion(data: any, version: string): ReleaseManifest | undefined {
+  if (Array.isArray(data)) {
+    const release = data.find(entry => entry?.tag_name === version || entry?.version === version);
+    return release ? parseManifest(release) : undefined;
+  }
+
+  const manifest = parseManifest(data);
+  return manifest.version === version ? manifest : undefined;
+}
+
+/**
+ * Read "Minimum launcher version: 1.2.0" / "Maximum launcher version: 2.0" lines from release notes
+ */
+function findLauncherBound(body: unknown, bound: 'min' | 'max'): string | undefined {
+  if (typeof body !== 'string') return undefined;
+  const label = bound === 'min' ? 'min(?:imum)?' : 'max(?:imum)?';
+  const match = body.match(new RegExp(`${label}[ _-]launcher[ _-]version\\s*[:=]\\s*v?(\\d+(?:\\.\\d+){0,2})`, 'i'));
+  return match ? match[1] : undefined;
+}
+
+/**
+ * Whether this launcher may install a release. Too old a launcher is refused
+ * (the user has to update the launcher); a launcher newer than the release
+ * was tested with only produces a warning.
+ */
+export function checkLauncherCompatibility(release: BotRelease, launcherVersion: string): ReleaseCompatibility {
+  const result: ReleaseCompatibility = {
+    compatible: true,
+    launcherUpdateRequired: false,
+    releaseVersion: release.version,
+    launcherVersion,
+    minLauncherVersion: release.minLauncherVersion,
+    maxLauncherVersion: release.maxLauncherVersion
+  };
+
+  if (release.minLauncherVersion && (compareVersions(launcherVersion, release.minLauncherVersion) ?? 0) < 0) {
+    return {
+      ...result,
+      compatible: false,
+      launcherUpdateRequired: true,
+      message: `Bot ${release.version} needs launcher ${release.minLauncherVersion} or newer - you have ${launcherVersion}. Please update the launcher.`
+    };
+  }
+
+  if (release.maxLauncherVersion && (compareVersions(launcherVersion, release.maxLauncherVersion) ?? 0) > 0) {
+    return {
+      ...result,
+      message: `Bot ${release.version} was only tested up to launcher ${release.maxLauncherVersion} (you have ${launcherVersion}). It may not work correctly.`
+    };
+  }
+
+  return result;
+}
+
+/**
+ * Pick the bundle for a platform/arch: explicit fields win, otherwise match on file name
+ */
+export function selectAsset(assets: ReleaseAsset[], platform: string, arch: string): ReleaseAsset | undefined {
+  const platformNames = PLATFORM_ALIASES[platform] || [platform];
+  const archNames = ARCH_ALIASES[arch] || [arch];
+  const candidates = assets.filter(asset => asset.url && !SIDECAR_PATTERN.test(asset.name));
+
+  const explicit = candidates.find(asset =>
+    asset.platform && platformNames.includes(asset.platform) &&
+    (!asset.arch || archNames.includes(asset.arch))
+  );
+  if (explicit) return explicit;
+
+  const tokensOf = (name: string) => name.toLowerCase().split(/[^a-z0-9_]+/);
+
+  // Prefer an exact platform+arch match, then a platform-only bundle
+  return candidates.find(asset => {
+    const tokens = tokensOf(asset.name);
+    return platformNames.some(p => tokens.includes(p)) && archNames.some(a => tokens.includes(a));
+  }) || candidates.find(asset => {
+    const tokens = tokensOf(asset.name);
+    return platformNames.some(p => tokens.includes(p)) &&
+      !Object.values(ARCH_ALIASES).flat().some(a => tokens.includes(a));
+  });
+}
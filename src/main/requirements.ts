@@ -0,0 +1,105 @@
+import { exec } from 'child_process';
+import { promisify } from 'util';
+import { launcherSettings } from './launcher-settings';
+import { satisfiesRange } from './version-utils';
+
+const execAsync = promisify(exec);
+
+const DETECTION_TIMEOUT_MS = 10 * 1000;
+
+export interface RequirementDefinition {
+  name: string;
+  // 'command' requirements are detected by running a command and reading its version;
+  // the others need their own checks (OS support, Claude login)
+  kind: 'os' | 'command' | 'auth';
+  command?: string;          // Prints the installed version
+  versionPattern?: RegExp;   // First capture group is the version
+  range?: string;            // Semver range the version must satisfy
+  required: boolean;
+}
+
+export interface RequirementCheck {
+  status: 'found' | 'missing' | 'outdated' | 'error';
+  version?: string;
+  details: string;
+}
+
+/**
+ * Everything the launcher checks during setup, in the order it is checked.
+ * Ranges can be overridden per requirement with the requirementRanges setting.
+ */
+export const REQUIREMENTS: RequirementDefinition[] = [
+  {
+    name: 'Operating System',
+    kind: 'os',
+    required: true
+  },
+  {
+    name: 'Node.js',
+    kind: 'command',
+    command: 'node --version',
+    versionPattern: /v?(\d+\.\d+\.\d+)/,
+    range: '>=14.0.0',
+    required: true
+  },
+  {
+    name: 'Claude Code CLI',
+    kind: 'command',
+    command: 'claude --version',
+    versionPattern: /(\d+\.\d+\.\d+)/,
+    range: '>=1.0.0',
+    required: true
+  },
+  {
+    name: 'Claude Authentication',
+    kind: 'auth',
+    required: true  // REQUIRED for legal compliance - users must accept ToS
+  }
+];
+
+export function getRequirement(name: string): RequirementDefinition {
+  const definition = REQUIREMENTS.find(requirement => requirement.name === name);
+  if (!definition) {
+    throw new Error(`Unknown requirement: ${name}`);
+  }
+  return definition;
+}
+
+/**
+ * The range a requirement must satisfy, after the user's override
+ */
+export function getRequirementRange(definition: RequirementDefinition): string | undefined {
+  return launcherSettings.get().requirementRanges?.[definition.name] || definition.range;
+}
+
+/**
+ * Run a command requirement's detection command and check its version against the range
+ */
+export async function checkCommandRequirement(definition: RequirementDefinition): Promise<RequirementCheck> {
+  if (!definition.command) {
+    throw new Error(`${definition.name} has no detection command`);
+  }
+
+  let output: string;
+  try {
+    const { stdout } = await execAsync(definition.command, { timeout: DETECTION_TIMEOUT_MS });
+    output = stdout.trim();
+  } catch {
+    return { status: 'missing', details: `${definition.name} is not installed` };
+  }
+
+  const match = definition.versionPattern ? output.match(definition.versionPattern) : null;
+  const version = match ? match[1] : output;
+  const range = getRequirementRange(definition);
+
+  if (!range) {
+    return { status: 'found', version, details: `${definition.name} ${version} is installed` };
+  }
+  if (!match) {
+    return { status: 'error', version: output, details: `Could not read the ${definition.name} version from "${output}"` };
+  }
+  if (!satisfiesRange(version, range)) {
+    return { status: 'outdated', version, details: `Found ${definition.name} ${version} but ${range} is required` };
+  }
+  return { status: 'found', version, details: `${definition.name} ${version} is installed` };
+}
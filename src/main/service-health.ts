@@ -0,0 +1,33 @@
+import { ipcMain } from 'electron';
+import { BotConfigStore } from './bot-config';
+import { probeService, ServiceHealth } from './service-probe';
+
+/**
+ * Service Health Checker
+ *
+ * Probes the configured Whisper and Piper endpoints so the config phase can
+ * show their status before the bot is started.
+ */
+export class ServiceHealthChecker {
+  private botConfigStore: BotConfigStore;
+
+  constructor(botConfigStore: BotConfigStore) {
+    this.botConfigStore = botConfigStore;
+    this.setupIpcHandlers();
+  }
+
+  private setupIpcHandlers(): void {
+    // URLs may be passed in to test unsaved form values
+    ipcMain.handle('service-health:check', async (_, urls?: { whisperUrl?: string; piperUrl?: string }) => {
+      return await this.checkAll(urls);
+    });
+  }
+
+  async checkAll(urls: { whisperUrl?: string; piperUrl?: string } = {}): Promise<ServiceHealth[]> {
+    const config = this.botConfigStore.getConfig();
+    return Promise.all([
+      probeService('whisper', urls.whisperUrl || config.whisperUrl),
+      probeService('piper', urls.piperUrl || config.piperUrl)
+    ]);
+  }
+}
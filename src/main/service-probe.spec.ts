@@ -0,0 +1,103 @@
+import { test, before, after } from 'node:test';
+import * as assert from 'node:assert/strict';
+import * as http from 'http';
+import { AddressInfo } from 'net';
+import { probeService } from './service-probe';
+
+let server: http.Server;
+let baseUrl: string;
+
+// Stub speech service: each path answers the way one kind of service might
+before(async () => {
+  server = http.createServer((request, response) => {
+    switch (request.url) {
+      case '/healthy/health':
+        response.writeHead(200, { 'Content-Type': 'application/json' });
+        response.end(JSON.stringify({ status: 'ok' }));
+        break;
+      case '/loading/health':
+        response.writeHead(200, { 'Content-Type': 'application/json' });
+        response.end(JSON.stringify({ status: 'loading' }));
+        break;
+      case '/broken/health':
+        response.writeHead(503);
+        response.end('Service Unavailable');
+        break;
+      case '/slow/health':
+        // Never answers; the probe has to give up on its own
+        break;
+      default:
+        response.writeHead(404);
+        response.end();
+    }
+  });
+
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+});
+
+after(() => {
+  server.closeAllConnections();
+  server.close();
+});
+
+test('reports a service answering {"status": "ok"} as healthy', async () => {
+  const health = await probeService('whisper', `${baseUrl}/healthy/`);
+
+  assert.equal(health.reachable, true);
+  assert.equal(health.healthy, true);
+  assert.equal(health.statusCode, 200);
+  assert.equal(typeof health.latencyMs, 'number');
+});
+
+test('reports a non-2xx response as reachable but unhealthy', async () => {
+  const health = await probeService('piper', `${baseUrl}/broken`);
+
+  assert.equal(health.reachable, true);
+  assert.equal(health.healthy, false);
+  assert.equal(health.statusCode, 503);
+  assert.match(health.details, /HTTP 503/);
+});
+
+test('reports an unexpected status body as unhealthy', async () => {
+  const health = await probeService('whisper', `${baseUrl}/loading`);
+
+  assert.equal(health.reachable, true);
+  assert.equal(health.healthy, false);
+  assert.match(health.details, /"loading"/);
+});
+
+test('gives up on a service that never answers', async () => {
+  const health = await probeService('whisper', `${baseUrl}/slow`, 200);
+
+  assert.equal(health.reachable, false);
+  assert.equal(health.healthy, false);
+  assert.match(health.details, /timed out after 200ms/);
+});
+
+test('reports a refused connection as unreachable', async () => {
+  const closed = http.createServer();
+  await new Promise<void>(resolve => closed.listen(0, '127.0.0.1', resolve));
+  const port = (closed.address() as AddressInfo).port;
+  await new Promise(resolve => closed.close(resolve));
+
+  const health = await probeService('piper', `http://127.0.0.1:${port}`);
+
+  assert.equal(health.reachable, false);
+  assert.match(health.details, /unreachable/);
+});
+
+test('rejects non-HTTP URLs without connecting', async () => {
+  const health = await probeService('whisper', 'ftp://127.0.0.1/whisper');
+
+  assert.equal(health.reachable, false);
+  assert.equal(health.healthy, false);
+  assert.match(health.details, /Unsupported protocol ftp:/);
+});
+
+test('rejects URLs that cannot be parsed', async () => {
+  const health = await probeService('piper', 'not a url');
+
+  assert.equal(health.healthy, false);
+  assert.equal(health.details, 'Invalid service URL');
+});
@@ -0,0 +1,129 @@
+import * as http from 'http';
+import * as https from 'https';
+
+const PROBE_TIMEOUT_MS = 5000;
+const MAX_BODY_BYTES = 64 * 1024;
+
+export type SpeechService = 'whisper' | 'piper';
+
+export interface ServiceHealth {
+  service: SpeechService;
+  url: string;
+  reachable: boolean;
+  healthy: boolean;
+  statusCode?: number;
+  latencyMs?: number;
+  details: string;
+}
+
+interface ProbeSpec {
+  label: string;
+  healthPath: string;
+  // Returns an error message when the response body isn't what the service should send
+  validate: (body: any) => string | undefined;
+}
+
+/**
+ * Both services expose GET /health returning {"status": "ok"} when ready
+ */
+const PROBE_SPECS: Record<SpeechService, ProbeSpec> = {
+  whisper: {
+    label: 'Whisper (speech-to-text)',
+    healthPath: '/health',
+    validate: validateStatusBody
+  },
+  piper: {
+    label: 'Piper (text-to-speech)',
+    healthPath: '/health',
+    validate: validateStatusBody
+  }
+};
+
+function validateStatusBody(body: any): string | undefined {
+  if (!body || typeof body !== 'object') {
+    return 'Expected a JSON object';
+  }
+  if (body.status !== 'ok' && body.status !== 'healthy') {
+    return `Service reported status "${body.status ?? 'unknown'}"`;
+  }
+  return undefined;
+}
+
+/**
+ * Probe a speech service health endpoint: reachability, response shape and latency
+ */
+export async function probeService(service: SpeechService, baseUrl: string, timeoutMs: number = PROBE_TIMEOUT_MS): Promise<ServiceHealth> {
+  const spec = PROBE_SPECS[service];
+  const result: ServiceHealth = { service, url: baseUrl, reachable: false, healthy: false, details: '' };
+
+  let url: URL;
+  try {
+    url = new URL(baseUrl.replace(/\/+$/, '') + spec.healthPath);
+  } catch {
+    result.details = 'Invalid service URL';
+    return result;
+  }
+
+  if (url.protocol !== 'http:' && url.protocol !== 'https:') {
+    result.details = `Unsupported protocol ${url.protocol} - use http:// or https://`;
+    return result;
+  }
+
+  const startedAt = Date.now();
+  const client = url.protocol === 'https:' ? https : http;
+
+  return new Promise((resolve) => {
+    const request = client.get(url, { timeout: timeoutMs, headers: { Accept: 'application/json' } }, (response) => {
+      let body = '';
+      response.setEncoding('utf8');
+
+      response.on('data', (chunk: string) => {
+        if (body.length < MAX_BODY_BYTES) {
+          body += chunk;
+        }
+      });
+
+      response.on('end', () => {
+        result.reachable = true;
+        result.statusCode = response.statusCode;
+        result.latencyMs = Date.now() - startedAt;
+
+        if (!response.statusCode || response.statusCode < 200 || response.statusCode >= 300) {
+          result.details = `${spec.label} responded with HTTP ${response.statusCode}`;
+          return resolve(result);
+        }
+
+        let parsed: any;
+        try {
+          parsed = JSON.parse(body);
+        } catch {
+          result.details = `${spec.label} did not return JSON from ${spec.healthPath}`;
+          return resolve(result);
+        }
+
+        const shapeError = spec.validate(parsed);
+        if (shapeError) {
+          result.details = `${spec.label}: ${shapeError}`;
+        } else {
+          result.healthy = true;
+          result.details = `${spec.label} is healthy (${result.latencyMs}ms)`;
+        }
+        resolve(result);
+      });
+
+      response.on('error', (error) => {
+        result.details = `${spec.label} connection error: ${error.message}`;
+        resolve(result);
+      });
+    });
+
+    request.on('timeout', () => {
+      request.destroy(new Error(`timed out after ${timeoutMs}ms`));
+    });
+
+    request.on('error', (error) => {
+      result.details = `${spec.label} is unreachable: ${error.message}`;
+      resolve(result);
+    });
+  });
+}
@@ -1,11 +1,16 @@
 import { ipcMain, BrowserWindow } from 'electron';
 import { getPlatformService, PlatformService } from './platform/platform-service';
+import { InstallMethod } from './platform/install-strategies';
 import { ClaudeAuthManager } from './claude-auth';
+import { launcherSettings } from './launcher-settings';
+import { applyToolchainEnvironment } from './node-toolchain';
+import { REQUIREMENTS, getRequirementRange } from './requirements';
 
 export interface SystemRequirement {
   name: string;
-  status: 'checking' | 'found' | 'missing' | 'error' | 'skipped';
+  status: 'checking' | 'found' | 'missing' | 'outdated' | 'error' | 'skipped';
   version?: string;
+  requiredRange?: string;   // Semver range a found version must satisfy
   details?: string;
   required: boolean;
 }
@@ -13,7 +18,11 @@ export interface SystemRequirement {
 export interface InstallationPlan {
   items: Array<{
     name: string;
-    method: 'apt' | 'npm' | 'download' | 'manual';
+    method: InstallMethod;
+    strategy?: string;        // Install strategy that runs first
+    fallbacks: string[];      // Strategies tried next if it fails
+    requiresSudo: boolean;
+    upgrade?: { from?: string; range?: string };  // Set when replacing an outdated version
     size: string;
     estimatedTime: string;
     description: string;
@@ -33,6 +42,22 @@ export interface InstallProgress {
   logOutput?: string[];
 }
 
+// Sizes and timings shown in the installation plan for dependencies the launcher can install
+const INSTALL_DETAILS: Record<string, { size: string; estimatedTime: string; minutes: number; description: string }> = {
+  'Node.js': {
+    size: '~15MB',
+    estimatedTime: '2-3 minutes',
+    minutes: 3,
+    description: 'JavaScript runtime required for Claude Code CLI'
+  },
+  'Claude Code CLI': {
+    size: '~5MB',
+    estimatedTime: '1-2 minutes',
+    minutes: 2,
+    description: 'Anthropic\'s command-line interface for Claude'
+  }
+};
+
 export class SystemSetup {
   private platformService: PlatformService;
   private claudeAuthManager: ClaudeAuthManager;
@@ -57,6 +82,16 @@ export class SystemSetup {
       return await this.createInstallationPlan(missingRequirements);
     });
 
+    // Node.js installations from version managers, Homebrew and PATH
+    ipcMain.handle('system-setup:list-node-installations', async () => {
+      return await this.platformService.findNodeInstallations();
+    });
+
+    // Use one of them (or go back to PATH order with null)
+    ipcMain.handle('system-setup:select-node-installation', async (_, binDirectory: string | null) => {
+      return await this.selectNodeInstallation(binDirectory);
+    });
+
     // Start installation process
     ipcMain.handle('system-setup:start-installation', async (_, plan: InstallationPlan) => {
       return await this.executeInstallationPlan(plan);
@@ -70,28 +105,12 @@ export class SystemSetup {
   }
 
   private async checkAllRequirements(): Promise<SystemRequirement[]> {
-    const requirements: SystemRequirement[] = [
-      {
-        name: 'Operating System',
-        status: 'checking',
-        required: true
-      },
-      {
-        name: 'Node.js',
-        status: 'checking',
-        required: true
-      },
-      {
-        name: 'Claude Code CLI',
-        status: 'checking',
-        required: true
-      },
-      {
-        name: 'Claude Authentication',
-        status: 'checking',
-        required: true  // REQUIRED for legal compliance - users must accept ToS
-      }
-    ];
+    const requirements: SystemRequirement[] = REQUIREMENTS.map(definition => ({
+      name: definition.name,
+      status: 'checking',
+      requiredRange: getRequirementRange(definition),
+      required: definition.required
+    }));
 
     // Send initial status to renderer
     this.mainWindow.webContents.send('system-setup:requirements-update', requirements);
@@ -99,36 +118,32 @@ export class SystemSetup {
     // Check each requirement
     for (let i = 0; i < requirements.length; i++) {
       const req = requirements[i];
+      const definition = REQUIREMENTS[i];
       
       try {
-        switch (req.name) {
-          case 'Operating System':
+        switch (definition.kind) {
+          case 'os':
             const osInfo = await this.platformService.getOSInfo();
             req.status = osInfo.supported ? 'found' : 'error';
             req.version = osInfo.version;
             req.details = osInfo.details;
             break;
 
-          case 'Node.js':
-            const nodeInfo = await this.platformService.checkNodeJS();
-            req.status = nodeInfo.found ? 'found' : 'missing';
-            req.version = nodeInfo.version;
-            req.details = nodeInfo.details;
-            break;
-
-          case 'Claude Code CLI':
-            const claudeInfo = await this.platformService.checkClaudeCode();
-            req.status = claudeInfo.found ? 'found' : 'missing';
-            req.version = claudeInfo.version;
-            req.details = claudeInfo.details;
+          case 'command':
+            const check = await this.platformService.checkRequirement(definition);
+            req.status = check.status;
+            req.version = check.version;
+            req.details = check.details;
             break;
 
-          case 'Claude Authentication':
-            // Only check auth if Claude CLI is installed
+          case 'auth':
+            // Only check auth if a usable Claude CLI is installed
             const claudeReq = requirements.find(r => r.name === 'Claude Code CLI');
             if (claudeReq?.status !== 'found') {
               req.status = 'skipped';
-              req.details = 'Skipped - Claude Code CLI not installed';
+              req.details = claudeReq?.status === 'outdated'
+                ? 'Skipped - Claude Code CLI needs an upgrade first'
+                : 'Skipped - Claude Code CLI not installed';
             } else {
               // Update UI to show we're actively checking (this can take time)
               req.details = 'Verifying Claude authentication (this may take up to 30 seconds)...';
@@ -155,43 +170,57 @@ export class SystemSetup {
     return requirements;
   }
 
+  private async selectNodeInstallation(binDirectory: string | null): Promise<{ success: boolean; error?: string }> {
+    if (binDirectory) {
+      const installation = (await this.platformService.findNodeInstallations())
+        .find(candidate => candidate.binDirectory === binDirectory);
+      if (!installation) {
+        return { success: false, error: `No Node.js installation found in ${binDirectory}` };
+      }
+      if (!installation.supported) {
+        return { success: false, error: `Node.js ${installation.version} is too old for Claude Code` };
+      }
+    }
+
+    launcherSettings.update({ nodeBinDirectory: binDirectory || '' });
+    applyToolchainEnvironment();
+    return { success: true };
+  }
+
   private async createInstallationPlan(missingRequirements: SystemRequirement[]): Promise<InstallationPlan> {
-    const items = [];
-    let requiresSudo = false;
+    const items: InstallationPlan['items'] = [];
     let totalTimeMinutes = 0;
 
-    for (const req of missingRequirements.filter(r => r.status === 'missing')) {
-      switch (req.name) {
-        case 'Node.js':
-          items.push({
-            name: 'Node.js',
-            method: 'apt' as const,
-            size: '~15MB',
-            estimatedTime: '2-3 minutes',
-            description: 'JavaScript runtime required for Claude Code CLI'
-          });
-          requiresSudo = true;
-          totalTimeMinutes += 3;
-          break;
-
-        case 'Claude Code CLI':
-          items.push({
-            name: 'Claude Code CLI',
-            method: 'npm' as const,
-            size: '~5MB',
-            estimatedTime: '1-2 minutes',
-            description: 'Anthropic\'s command-line interface for Claude'
-          });
-          totalTimeMinutes += 2;
-          break;
-      }
+    // Ask the platform which strategy chain installAllDependencies will run for each item;
+    // outdated ones go through the same chain, which installs a version that satisfies the range
+    const missing = missingRequirements.filter(r =>
+      (r.status === 'missing' || r.status === 'outdated') && INSTALL_DETAILS[r.name]);
+    const planned = await this.platformService.planInstallation(missing.map(r => r.name));
+
+    for (const { dependency, strategy, fallbacks } of planned) {
+      const { size, estimatedTime, minutes, description } = INSTALL_DETAILS[dependency];
+      const requirement = missing.find(r => r.name === dependency);
+      items.push({
+        name: dependency,
+        method: strategy?.method || 'manual',
+        strategy: strategy?.name,
+        fallbacks: fallbacks.map(fallback => fallback.name),
+        requiresSudo: strategy?.requiresSudo || false,
+        size,
+        estimatedTime,
+        description,
+        upgrade: requirement?.status === 'outdated'
+          ? { from: requirement.version, range: requirement.requiredRange }
+          : undefined
+      });
+      totalTimeMinutes += minutes;
     }
 
     return {
       items,
       totalTime: `${totalTimeMinutes}-${totalTimeMinutes + 2} minutes`,
-      requiresSudo,
-      canAutoInstall: items.length > 0
+      requiresSudo: items.some(item => item.requiresSudo),
+      canAutoInstall: items.length > 0 && items.every(item => item.method !== 'manual')
     };
   }
 
@@ -204,7 +233,7 @@ export class SystemSetup {
       // Collect all missing dependencies
       const missingDeps = plan.items.map(item => item.name);
       
-      // Install everything in one go (single password prompt)
+      // Install or upgrade everything through each dependency's strategy chain
       await this.platformService.installAllDependencies(missingDeps);
 
       // Mark installation as complete
@@ -0,0 +1,82 @@
+import { test } from 'node:test';
+import * as assert from 'node:assert/strict';
+import { compareVersions, isValidRange, parseVersion, satisfiesRange } from './version-utils';
+
+const sign = (value: number | null) => (value === null ? null : Math.sign(value));
+
+test('parses versions embedded in tool output', () => {
+  assert.deepEqual(parseVersion('v20.11.1'), { release: [20, 11, 1], prerelease: [] });
+  assert.deepEqual(parseVersion('toji-bot 1.2.3-beta.1'), { release: [1, 2, 3], prerelease: ['beta', '1'] });
+  assert.deepEqual(parseVersion('1.2'), { release: [1, 2, 0], prerelease: [] });
+  assert.deepEqual(parseVersion('22'), { release: [22, 0, 0], prerelease: [] });
+  assert.deepEqual(parseVersion('2.0.0-rc.1+build.5'), { release: [2, 0, 0], prerelease: ['rc', '1'] });
+  assert.equal(parseVersion('legacy'), null);
+});
+
+test('compares release versions numerically', () => {
+  assert.equal(sign(compareVersions('1.10.0', '1.9.9')), 1);
+  assert.equal(sign(compareVersions('v2.0', '2.0.0')), 0);
+  assert.equal(sign(compareVersions('0.9.0', '1.0.0')), -1);
+  assert.equal(compareVersions('legacy', '1.0.0'), null);
+});
+
+test('orders a prerelease below its release', () => {
+  assert.equal(sign(compareVersions('2.0.0-rc.1', '2.0.0')), -1);
+  assert.equal(sign(compareVersions('2.0.0', '2.0.0-rc.1')), 1);
+  assert.equal(sign(compareVersions('2.0.0-rc.1', '1.9.9')), 1);
+});
+
+test('orders prerelease identifiers as semver does', () => {
+  const ordered = [
+    '1.0.0-alpha',
+    '1.0.0-alpha.1',
+    '1.0.0-alpha.beta',
+    '1.0.0-beta',
+    '1.0.0-beta.2',
+    '1.0.0-beta.11',
+    '1.0.0-rc.1',
+    '1.0.0'
+  ];
+  for (let i = 1; i < ordered.length; i++) {
+    assert.equal(sign(compareVersions(ordered[i - 1], ordered[i])), -1, `${ordered[i - 1]} < ${ordered[i]}`);
+  }
+  assert.equal(sign(compareVersions('1.0.0-rc.1', '1.0.0-rc.1')), 0);
+});
+
+test('keeps prereleases out of ranges that only name releases', () => {
+  assert.equal(satisfiesRange('1.0.0-beta', '>=1.0.0'), false);
+  assert.equal(satisfiesRange('2.0.0-rc.1', '>=1.0.0'), false);
+  assert.equal(satisfiesRange('2.0.0-rc.1', '^1.0.0'), false);
+  assert.equal(satisfiesRange('1.0.0', '>=1.0.0'), true);
+});
+
+test('matches prereleases against a range naming the same release', () => {
+  assert.equal(satisfiesRange('2.0.0-rc.2', '>=2.0.0-rc.1'), true);
+  assert.equal(satisfiesRange('2.0.0-beta', '>=2.0.0-rc.1'), false);
+  assert.equal(satisfiesRange('2.0.1-rc.1', '>=2.0.0-rc.1'), false);
+  assert.equal(satisfiesRange('2.0.0', '>=2.0.0-rc.1'), true);
+});
+
+test('supports hyphen ranges', () => {
+  assert.equal(isValidRange('1.2.3 - 2.3.4'), true);
+  assert.equal(satisfiesRange('1.2.3', '1.2.3 - 2.3.4'), true);
+  assert.equal(satisfiesRange('2.3.4', '1.2.3 - 2.3.4'), true);
+  assert.equal(satisfiesRange('2.3.5', '1.2.3 - 2.3.4'), false);
+  // A partial upper end covers everything it names
+  assert.equal(satisfiesRange('2.3.9', '1.2.3 - 2.3'), true);
+  assert.equal(satisfiesRange('2.4.0', '1.2.3 - 2.3'), false);
+  assert.equal(satisfiesRange('1.1.9', '1.2 - 2'), false);
+  assert.equal(satisfiesRange('18.0.0', '16 - 18 || >=22'), true);
+  assert.equal(isValidRange('1.2.3 - ^2'), false);
+});
+
+test('matches the usual range forms', () => {
+  assert.equal(satisfiesRange('20.11.1', '^20.11'), true);
+  assert.equal(satisfiesRange('21.0.0', '^20.11'), false);
+  assert.equal(satisfiesRange('18.19.0', '18.x'), true);
+  assert.equal(satisfiesRange('1.2.9', '~1.2.3'), true);
+  assert.equal(satisfiesRange('1.3.0', '~1.2.3'), false);
+  assert.equal(satisfiesRange('v22.1.0', '^20.11 || >=22'), true);
+  assert.equal(isValidRange('1.x.3'), false);
+  assert.equal(isValidRange('1.2-beta'), false);
+});
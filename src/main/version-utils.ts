@@ -0,0 +1,168 @@
+export interface ParsedVersion {
+  release: [number, number, number];
+  prerelease: string[];   // Dot-separated identifiers after "-", e.g. ["rc", "1"]; empty for a release
+}
+
+/**
+ * Parse the first "major.minor[.patch][-prerelease]" in a version string
+ * ("v1.2", "toji-bot 1.2.3-beta.1"). Build metadata after "+" is ignored.
+ */
+export function parseVersion(version: string): ParsedVersion | null {
+  const match = version.match(/(\d+)\.(\d+)(?:\.(\d+))?(?:-([0-9A-Za-z-]+(?:\.[0-9A-Za-z-]+)*))?/);
+  if (match) {
+    return {
+      release: [Number(match[1]), Number(match[2]), Number(match[3] || 0)],
+      prerelease: match[4] ? match[4].split('.') : []
+    };
+  }
+
+  const major = version.match(/^\D*(\d+)\s*$/);
+  return major ? { release: [Number(major[1]), 0, 0], prerelease: [] } : null;
+}
+
+/**
+ * Compare two versions: negative if a < b, 0 if equal, positive if a > b.
+ * A prerelease sorts below its release (2.0.0-rc.1 < 2.0.0), as in semver.
+ * Returns null if either version can't be parsed.
+ */
+export function compareVersions(a: string, b: string): number | null {
+  const left = parseVersion(a);
+  const right = parseVersion(b);
+  if (!left || !right) return null;
+  return compareParsedVersions(left, right);
+}
+
+function compareParsedVersions(left: ParsedVersion, right: ParsedVersion): number {
+  for (let i = 0; i < 3; i++) {
+    if (left.release[i] !== right.release[i]) {
+      return left.release[i] - right.release[i];
+    }
+  }
+
+  if (left.prerelease.length === 0 || right.prerelease.length === 0) {
+    return right.prerelease.length - left.prerelease.length;
+  }
+
+  // Identifier by identifier: numbers numerically and below words, words in ASCII order,
+  // and a shorter list first when all its identifiers match (semver section 11)
+  for (let i = 0; i < Math.min(left.prerelease.length, right.prerelease.length); i++) {
+    const difference = comparePrereleaseIdentifiers(left.prerelease[i], right.prerelease[i]);
+    if (difference !== 0) return difference;
+  }
+  return left.prerelease.length - right.prerelease.length;
+}
+
+function comparePrereleaseIdentifiers(a: string, b: string): number {
+  const aNumeric = /^\d+$/.test(a);
+  const bNumeric = /^\d+$/.test(b);
+  if (aNumeric && bNumeric) return Number(a) - Number(b);
+  if (aNumeric !== bNumeric) return aNumeric ? -1 : 1;
+  return a < b ? -1 : a > b ? 1 : 0;
+}
+
+type Comparator = { operator: '>=' | '>' | '<=' | '<' | '='; version: ParsedVersion };
+
+const COMPARATOR_PATTERN = /^(>=|<=|>|<|=|\^|~)?v?(\d+|[xX*])(?:\.(\d+|[xX*]))?(?:\.(\d+|[xX*]))?(?:-([0-9A-Za-z-]+(?:\.[0-9A-Za-z-]+)*))?$/;
+
+/**
+ * Turn one range term (">=1.2", "^20.11.0", "~1.2", "18.x", ">=2.0.0-rc.1") into plain
+ * comparators. Returns null if the term isn't valid.
+ */
+function parseComparator(term: string): Comparator[] | null {
+  const match = term.match(COMPARATOR_PATTERN);
+  if (!match) return null;
+
+  const operator = match[1] || '=';
+  const parts = match.slice(2, 5).map(part => (part === undefined || /^[xX*]$/.test(part) ? null : Number(part)));
+  const given = parts.indexOf(null) === -1 ? 3 : parts.indexOf(null);
+  if (parts.slice(given).some(part => part !== null)) return null;  // "1.x.3"
+  if (match[5] && given < 3) return null;                            // "1.2-beta"
+  if (given === 0) return [];                                        // "*" matches anything
+
+  const [major, minor, patch] = parts.map(part => part ?? 0) as [number, number, number];
+  const at = (release: [number, number, number], prerelease: string[] = []): ParsedVersion => ({ release, prerelease });
+  const lower = at([major, minor, patch], match[5] ? match[5].split('.') : []);
+  // Smallest version above everything the partial version covers: 1 -> 2.0.0, 1.2 -> 1.3.0
+  const next = at(given === 1 ? [major + 1, 0, 0] : given === 2 ? [major, minor + 1, 0] : [major, minor, patch + 1]);
+
+  switch (operator) {
+    case '^': {
+      const upper = at(major > 0 || given === 1
+        ? [major + 1, 0, 0]
+        : minor > 0 || given === 2 ? [0, minor + 1, 0] : [0, 0, patch + 1]);
+      return [{ operator: '>=', version: lower }, { operator: '<', version: upper }];
+    }
+    case '~':
+      return [{ operator: '>=', version: lower }, { operator: '<', version: given === 1 ? next : at([major, minor + 1, 0]) }];
+    case '>=':
+    case '<':
+      return [{ operator, version: lower }];
+    case '>':
+      return [given === 3 ? { operator: '>', version: lower } : { operator: '>=', version: next }];
+    case '<=':
+      return [given === 3 ? { operator: '<=', version: lower } : { operator: '<', version: next }];
+    default:
+      return given === 3
+        ? [{ operator: '=', version: lower }]
+        : [{ operator: '>=', version: lower }, { operator: '<', version: next }];
+  }
+}
+
+/**
+ * Parse a semver-style range into alternatives of comparators, or null if it is invalid.
+ * Terms separated by spaces must all hold; alternatives are separated by "||".
+ * "1.2.3 - 2.3" is a hyphen range: >=1.2.3 and below 2.4.0.
+ */
+function parseRange(range: string): Comparator[][] | null {
+  const alternatives: Comparator[][] = [];
+  for (const alternative of range.split('||')) {
+    const hyphen = alternative.trim().match(/^(\S+)\s+-\s+(\S+)$/);
+    const terms = hyphen
+      ? [`>=${hyphen[1]}`, `<=${hyphen[2]}`]
+      : alternative.trim().replace(/(>=|<=|>|<|=|\^|~)\s+/g, '$1').split(/\s+/).filter(Boolean);
+    if (terms.length === 0) return null;
+
+    const comparators: Comparator[] = [];
+    for (const term of terms) {
+      const parsed = parseComparator(term);
+      if (!parsed) return null;
+      comparators.push(...parsed);
+    }
+    alternatives.push(comparators);
+  }
+  return alternatives;
+}
+
+export function isValidRange(range: string): boolean {
+  return parseRange(range) !== null;
+}
+
+/**
+ * Whether a version satisfies a semver-style range such as ">=18.0.0", "^20.11 || >=22",
+ * "18.x" or "18.0.0 - 20". As in semver, a prerelease (22.0.0-rc.1) only matches an
+ * alternative that names a prerelease of the same major.minor.patch; unparseable
+ * versions or ranges never match.
+ */
+export function satisfiesRange(version: string, range: string): boolean {
+  const parsed = parseVersion(version);
+  const alternatives = parseRange(range);
+  if (!parsed || !alternatives) return false;
+
+  return alternatives.some(comparators => {
+    const matches = comparators.every(({ operator, version: bound }) => {
+      const difference = compareParsedVersions(parsed, bound);
+      switch (operator) {
+        case '>=': return difference >= 0;
+        case '>': return difference > 0;
+        case '<=': return difference <= 0;
+        case '<': return difference < 0;
+        default: return difference === 0;
+      }
+    });
+    if (!matches || parsed.prerelease.length === 0) return matches;
+
+    // Keep prereleases out of ranges that only mention releases
+    return comparators.some(({ version: bound }) =>
+      bound.prerelease.length > 0 && bound.release.every((part, i) => part === parsed.release[i]));
+  });
+}
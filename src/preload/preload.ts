@@ -7,13 +7,18 @@ export interface ElectronAPI {
     logout: () => Promise<void>;
     getUser: () => Promise<UserInfo | null>;
     onAuthStateChange: (callback: (user: UserInfo | null) => void) => void;
+    listAccounts: () => Promise<AccountSummary[]>;
+    switchAccount: (accountId: string) => Promise<void>;
+    removeAccount: (accountId: string) => Promise<void>;
   };
   bot: {
     start: () => Promise<void>;
     stop: () => Promise<void>;
     getStatus: () => Promise<BotStatus>;
     onStatusChange: (callback: (status: BotStatus) => void) => void;
-    getLogs: (lines?: number) => Promise<string[]>;
+    getLogs: (lines?: number, filter?: LogFilter) => Promise<string[]>;
+    onLogLine: (callback: (entry: LogEntry) => void) => void;
+    getRestartHistory: () => Promise<RestartRecord[]>;
   };
   system: {
     openExternal: (url: string) => Promise<void>;
@@ -33,6 +38,11 @@ export interface UserInfo {
   email?: string;
 }
 
+export interface AccountSummary {
+  user: UserInfo;
+  active: boolean;
+}
+
 export interface BotStatus {
   running: boolean;
   pid?: number;
@@ -40,6 +50,26 @@ export interface BotStatus {
   error?: string;
 }
 
+export interface RestartRecord {
+  timestamp: number;
+  exitCode: number | null;
+  signal: string | null;
+  attempt: number;
+  delayMs: number;
+}
+
+export interface LogEntry {
+  timestamp: number;
+  stream: 'stdout' | 'stderr';
+  line: string;
+}
+
+export interface LogFilter {
+  stream?: 'stdout' | 'stderr';
+  since?: number;
+  until?: number;
+}
+
 // Expose protected methods that allow the renderer to safely interact with the main process
 contextBridge.exposeInMainWorld('electronAPI', {
   auth: {
@@ -48,7 +78,10 @@ contextBridge.exposeInMainWorld('electronAPI', {
     getUser: () => ipcRenderer.invoke('auth:get-user'),
     onAuthStateChange: (callback: (user: UserInfo | null) => void) => {
       ipcRenderer.on('auth:state-changed', (_event, user) => callback(user));
-    }
+    },
+    listAccounts: () => ipcRenderer.invoke('auth:list-accounts'),
+    switchAccount: (accountId: string) => ipcRenderer.invoke('auth:switch-account', accountId),
+    removeAccount: (accountId: string) => ipcRenderer.invoke('auth:remove-account', accountId)
   },
   bot: {
     start: () => ipcRenderer.invoke('bot:start'),
@@ -57,7 +90,11 @@ contextBridge.exposeInMainWorld('electronAPI', {
     onStatusChange: (callback: (status: BotStatus) => void) => {
       ipcRenderer.on('bot:status-changed', (_event, status) => callback(status));
     },
-    getLogs: (lines?: number) => ipcRenderer.invoke('bot:get-logs', lines)
+    getLogs: (lines?: number, filter?: LogFilter) => ipcRenderer.invoke('bot:get-logs', lines, filter),
+    onLogLine: (callback: (entry: LogEntry) => void) => {
+      ipcRenderer.on('bot:log-line', (_event, entry) => callback(entry));
+    },
+    getRestartHistory: () => ipcRenderer.invoke('bot:get-restart-history')
   },
   system: {
     openExternal: (url: string) => ipcRenderer.invoke('system:open-external', url),
@@ -1,6 +1,13 @@
 import React, { useState, useEffect } from 'react';
 import { UserInfo } from '../types';
 import SetupFlow from './components/SetupFlow';
+import BotConfigForm from './components/BotConfigForm';
+import BotControls from './components/BotControls';
+import BotVersions from './components/BotVersions';
+import BotUpdateBanner from './components/BotUpdateBanner';
+import BotIntegrityCheck from './components/BotIntegrityCheck';
+import LauncherSettingsPanel from './components/LauncherSettingsPanel';
+import AccountSwitcher from './components/AccountSwitcher';
 
 type AppPhase = 'auth' | 'setup' | 'config' | 'ready';
 
@@ -9,6 +16,8 @@ function App() {
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [currentPhase, setCurrentPhase] = useState<AppPhase>('auth');
+  const [showSettings, setShowSettings] = useState(false);
+  const [expiredUser, setExpiredUser] = useState<UserInfo | null>(null);
 
   useEffect(() => {
     // Check if user is already logged in on startup
@@ -17,9 +26,21 @@ function App() {
     // Listen for auth state changes
     window.electronAPI.auth.onAuthStateChange((newUser) => {
       setUser(newUser);
+      // Session lapsed and could not be refreshed - back to the login screen
+      if (!newUser) {
+        setCurrentPhase('auth');
+        checkExpiredSession();
+      }
     });
   }, []);
 
+  // The active account stays stored after its session expires; name it on the login screen
+  const checkExpiredSession = async () => {
+    const accounts = await window.electronAPI.auth.listAccounts();
+    const active = accounts.find(account => account.active);
+    setExpiredUser(active?.sessionExpired ? active.user : null);
+  };
+
   const checkAuthStatus = async () => {
     try {
       const currentUser = await window.electronAPI.auth.getUser();
@@ -27,6 +48,8 @@ function App() {
       // If user is authenticated, move to system setup phase
       if (currentUser) {
         setCurrentPhase('setup');
+      } else {
+        await checkExpiredSession();
       }
     } catch (err) {
       console.error('Failed to check auth status:', err);
@@ -41,6 +64,7 @@ function App() {
       const result = await window.electronAPI.auth.login();
       if (result.success) {
         setUser(result.user || null);
+        setExpiredUser(null);
         setCurrentPhase('setup');
       } else {
         setError(result.error || 'Login failed');
@@ -53,13 +77,28 @@ function App() {
   };
 
   const handleLogout = async () => {
+    setShowSettings(false);
     await window.electronAPI.auth.logout();
-    setUser(null);
-    setCurrentPhase('auth');
+    // Another stored account becomes active if there is one
+    await handleAccountSwitched();
+  };
+
+  const handleAccountSwitched = async () => {
+    const activeUser = await window.electronAPI.auth.getUser();
+    setUser(activeUser);
+    if (!activeUser) {
+      setCurrentPhase('auth');
+      await checkExpiredSession();
+    } else if (currentPhase === 'config' || currentPhase === 'ready') {
+      // Bot configuration is per account
+      await handleSetupComplete();
+    }
   };
 
-  const handleSetupComplete = () => {
-    setCurrentPhase('config');
+  const handleSetupComplete = async () => {
+    // Skip straight to the bot controls if a token was already configured
+    const config = await window.electronAPI.invoke('bot-config:get');
+    setCurrentPhase(config.hasDiscordToken ? 'ready' : 'config');
   };
 
   return (
@@ -67,9 +106,24 @@ function App() {
       <div className="header">
         <h1>🤖 Toji Launcher</h1>
         <p className="subtitle">Voice-Controlled Computer Interface</p>
+        {user && currentPhase !== 'auth' && (
+          <AccountSwitcher
+            user={user}
+            onAddAccount={handleLogin}
+            onSwitched={handleAccountSwitched}
+            onOpenSettings={() => setShowSettings(!showSettings)}
+          />
+        )}
       </div>
 
       <div className="main-content">
+        {showSettings && currentPhase !== 'auth' && (
+          <div className="status-card">
+            <h2>Launcher settings</h2>
+            <LauncherSettingsPanel onClose={() => setShowSettings(false)} />
+          </div>
+        )}
+
         {currentPhase === 'auth' && (
           <div className="status-card">
             <h2>Welcome to Toji</h2>
@@ -84,6 +138,12 @@ function App() {
                   ⚠️ {error}
                 </div>
               )}
+
+              {expiredUser && !error && (
+                <div className="session-unverified">
+                  Your session as {expiredUser.username} has expired. Log in again to continue.
+                </div>
+              )}
               
               {loading ? (
                 <div className="loading">
@@ -99,9 +159,21 @@ function App() {
                   >
                     Login with Discord
                   </button>
+                  <div>
+                    <button 
+                      className="text-button"
+                      onClick={() => setShowSettings(!showSettings)}
+                    >
+                      Server settings
+                    </button>
+                  </div>
                 </>
               )}
             </div>
+
+            {showSettings && !loading && (
+              <LauncherSettingsPanel onClose={() => setShowSettings(false)} />
+            )}
           </div>
         )}
 
@@ -109,7 +181,7 @@ function App() {
           <SetupFlow onComplete={handleSetupComplete} />
         )}
 
-        {currentPhase === 'config' && (
+        {(currentPhase === 'config' || currentPhase === 'ready') && (
           <div className="status-card">
             <h2>Welcome back, {user?.username}!</h2>
             <div className="user-info">
@@ -125,22 +197,31 @@ function App() {
                 <p><strong>User ID:</strong> {user?.id}</p>
               </div>
             </div>
+            {user?.unverified && (
+              <div className="session-unverified">
+                ⚠️ Your session has expired and the login server can't be reached right now.
+                You're still signed in; it will be renewed as soon as the server is back.
+              </div>
+            )}
             
-            <div className="bot-config-section">
-              <h3>✅ System Ready! Next: Configure Your Bot</h3>
-              <p>
-                Your system dependencies are installed. Now we need to configure your Discord bot 
-                and voice services to complete the setup.
-              </p>
-              <div className="config-placeholder">
-                <p className="info">Bot configuration will be implemented in Phase 3B</p>
-                <ul>
-                  <li>Enter your Discord bot token</li>
-                  <li>Configure Whisper and Piper services</li>
-                  <li>Start the bot and join a voice channel</li>
-                </ul>
+            {currentPhase === 'config' ? (
+              <div className="bot-config-section">
+                <h3>✅ System Ready! Next: Configure Your Bot</h3>
+                <p>
+                  Your system dependencies are installed. Now we need to configure your Discord bot 
+                  and voice services to complete the setup.
+                </p>
+                <BotConfigForm onSaved={() => setCurrentPhase('ready')} />
               </div>
-            </div>
+            ) : (
+              <div className="bot-config-section">
+                <h3>🤖 Your Bot</h3>
+                <BotUpdateBanner />
+                <BotControls onEditConfig={() => setCurrentPhase('config')} />
+                <BotVersions />
+                <BotIntegrityCheck />
+              </div>
+            )}
             
             <button 
               className="btn-secondary"
@@ -0,0 +1,63 @@
+import React, { useState, useEffect } from 'react';
+import { AccountSummary, UserInfo } from '../../types';
+
+interface AccountSwitcherProps {
+  user: UserInfo;
+  onAddAccount: () => void;
+  onSwitched: () => void;
+  onOpenSettings: () => void;
+}
+
+export default function AccountSwitcher({ user, onAddAccount, onSwitched, onOpenSettings }: AccountSwitcherProps) {
+  const [accounts, setAccounts] = useState<AccountSummary[]>([]);
+  const [busy, setBusy] = useState(false);
+
+  useEffect(() => {
+    // Reload whenever the active user changes (login, switch, logout)
+    window.electronAPI.auth.listAccounts().then(setAccounts);
+  }, [user.id]);
+
+  const handleSwitch = async (accountId: string) => {
+    if (accountId === user.id) return;
+    setBusy(true);
+    const result = await window.electronAPI.auth.switchAccount(accountId);
+    setBusy(false);
+    if (result.success) {
+      onSwitched();
+    }
+  };
+
+  const handleRemove = async () => {
+    if (!window.confirm(`Remove ${user.username} and its bot configuration from this computer?`)) return;
+    setBusy(true);
+    await window.electronAPI.auth.removeAccount(user.id);
+    setAccounts(await window.electronAPI.auth.listAccounts());
+    setBusy(false);
+    onSwitched();
+  };
+
+  return (
+    <div className="account-switcher">
+      <select
+        value={user.id}
+        disabled={busy}
+        onChange={(e) => handleSwitch(e.target.value)}
+      >
+        {accounts.map(account => (
+          <option key={account.user.id} value={account.user.id}>
+            {account.user.username}
+          </option>
+        ))}
+      </select>
+      <button className="text-button" onClick={onAddAccount} disabled={busy}>
+        Add account
+      </button>
+      <button className="text-button" onClick={handleRemove} disabled={busy}>
+        Remove
+      </button>
+      <button className="text-button" onClick={onOpenSettings} disabled={busy}>
+        Settings
+      </button>
+    </div>
+  );
+}
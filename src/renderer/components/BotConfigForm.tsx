@@ -0,0 +1,172 @@
+import React, { useState, useEffect } from 'react';
+import { BotConfigView, BotConfigUpdate, BotConfigValidation } from '../../main/bot-config';
+import { ServiceHealth } from '../../main/service-probe';
+
+interface BotConfigFormProps {
+  onSaved: () => void;
+}
+
+export default function BotConfigForm({ onSaved }: BotConfigFormProps) {
+  const [config, setConfig] = useState<BotConfigView | null>(null);
+  const [form, setForm] = useState<BotConfigUpdate>({});
+  const [errors, setErrors] = useState<BotConfigValidation['errors']>({});
+  const [saving, setSaving] = useState(false);
+  const [saveError, setSaveError] = useState<string | null>(null);
+  const [health, setHealth] = useState<ServiceHealth[] | null>(null);
+  const [checkingHealth, setCheckingHealth] = useState(false);
+
+  useEffect(() => {
+    loadConfig();
+  }, []);
+
+  const loadConfig = async () => {
+    try {
+      const current: BotConfigView = await window.electronAPI.invoke('bot-config:get');
+      setConfig(current);
+      setForm({
+        discordToken: '',
+        whisperUrl: current.whisperUrl,
+        piperUrl: current.piperUrl,
+        workspacePath: current.workspacePath
+      });
+    } catch (err: any) {
+      setSaveError(`Failed to load bot configuration: ${err.message}`);
+    }
+  };
+
+  const updateField = (field: keyof BotConfigUpdate, value: string) => {
+    setForm({ ...form, [field]: value });
+    setErrors({ ...errors, [field]: undefined });
+  };
+
+  const handleCheckServices = async () => {
+    setCheckingHealth(true);
+    try {
+      const results = await window.electronAPI.invoke('service-health:check', {
+        whisperUrl: form.whisperUrl,
+        piperUrl: form.piperUrl
+      });
+      setHealth(results);
+    } catch (err: any) {
+      setSaveError(`Failed to check services: ${err.message}`);
+    } finally {
+      setCheckingHealth(false);
+    }
+  };
+
+  const handleSave = async () => {
+    setSaving(true);
+    setSaveError(null);
+
+    try {
+      const result = await window.electronAPI.invoke('bot-config:save', form);
+      setErrors(result.validation.errors);
+      if (result.success) {
+        setConfig(result.config);
+        onSaved();
+      } else if (result.error) {
+        setSaveError(result.error);
+      }
+    } catch (err: any) {
+      setSaveError(`Failed to save bot configuration: ${err.message}`);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  if (!config) {
+    return (
+      <div className="loading">
+        <p>Loading bot configuration...</p>
+        <div className="spinner"></div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="config-form">
+      {saveError && (
+        <div className="error-message">
+          ⚠️ {saveError}
+        </div>
+      )}
+
+      <ConfigField
+        label="Discord bot token"
+        type="password"
+        value={form.discordToken || ''}
+        placeholder={config.hasDiscordToken ? 'Token saved - leave blank to keep it' : 'Paste your bot token'}
+        error={errors.discordToken}
+        onChange={(value) => updateField('discordToken', value)}
+      />
+
+      <ConfigField
+        label="Whisper service URL (speech-to-text)"
+        value={form.whisperUrl || ''}
+        placeholder="http://localhost:9000"
+        error={errors.whisperUrl}
+        onChange={(value) => updateField('whisperUrl', value)}
+      />
+
+      <ConfigField
+        label="Piper service URL (text-to-speech)"
+        value={form.piperUrl || ''}
+        placeholder="http://localhost:5000"
+        error={errors.piperUrl}
+        onChange={(value) => updateField('piperUrl', value)}
+      />
+
+      <ConfigField
+        label="Workspace path"
+        value={form.workspacePath || ''}
+        placeholder="/home/you/toji-workspace"
+        error={errors.workspacePath}
+        onChange={(value) => updateField('workspacePath', value)}
+      />
+
+      {health && (
+        <div className="service-health">
+          {health.map(result => (
+            <div key={result.service} className={result.healthy ? 'service-health-item healthy' : 'service-health-item unhealthy'}>
+              <span>{result.healthy ? '🟢' : '🔴'}</span>
+              <span>{result.details}</span>
+            </div>
+          ))}
+        </div>
+      )}
+
+      <div className="step-actions">
+        <button className="primary-button" onClick={handleSave} disabled={saving}>
+          {saving ? 'Saving...' : 'Save Configuration'}
+        </button>
+        <button className="secondary-button" onClick={handleCheckServices} disabled={checkingHealth}>
+          {checkingHealth ? 'Checking...' : 'Test Services'}
+        </button>
+      </div>
+    </div>
+  );
+}
+
+interface ConfigFieldProps {
+  label: string;
+  value: string;
+  placeholder?: string;
+  type?: string;
+  error?: string;
+  onChange: (value: string) => void;
+}
+
+function ConfigField({ label, value, placeholder, type = 'text', error, onChange }: ConfigFieldProps) {
+  return (
+    <label className={error ? 'config-field invalid' : 'config-field'}>
+      <span className="config-label">{label}</span>
+      <input
+        type={type}
+        value={value}
+        placeholder={placeholder}
+        onChange={(e) => onChange(e.target.value)}
+      />
+      {error && <span className="config-error">{error}</span>}
+    </label>
+  );
+}
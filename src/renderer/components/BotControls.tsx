@@ -0,0 +1,101 @@
+import React, { useState, useEffect } from 'react';
+import { BotStatus, LogEntry } from '../../types';
+
+const VISIBLE_LOG_LINES = 200;
+
+interface BotControlsProps {
+  onEditConfig: () => void;
+}
+
+export default function BotControls({ onEditConfig }: BotControlsProps) {
+  const [status, setStatus] = useState<BotStatus>({ running: false });
+  const [logs, setLogs] = useState<string[]>([]);
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    window.electronAPI.bot.getStatus().then(setStatus);
+    window.electronAPI.bot.getLogs(VISIBLE_LOG_LINES).then(setLogs);
+
+    const handleStatusChange = (event: any, newStatus: BotStatus) => {
+      setStatus(newStatus);
+    };
+
+    const handleLogLine = (event: any, entry: LogEntry) => {
+      const line = `[${new Date(entry.timestamp).toISOString()}] [${entry.stream}] ${entry.line}`;
+      setLogs(current => [...current, line].slice(-VISIBLE_LOG_LINES));
+    };
+
+    window.electronAPI.on('bot:status-changed', handleStatusChange);
+    window.electronAPI.on('bot:log-line', handleLogLine);
+
+    return () => {
+      window.electronAPI.off('bot:status-changed', handleStatusChange);
+      window.electronAPI.off('bot:log-line', handleLogLine);
+    };
+  }, []);
+
+  const handleStart = async () => {
+    setBusy(true);
+    setError(null);
+    const result = await window.electronAPI.bot.start();
+    if (!result.success) {
+      setError(result.error || 'Failed to start bot');
+    }
+    setBusy(false);
+  };
+
+  const handleStop = async () => {
+    setBusy(true);
+    setError(null);
+    const result = await window.electronAPI.bot.stop();
+    if (!result.success) {
+      setError(result.error || 'Failed to stop bot');
+    }
+    setBusy(false);
+  };
+
+  return (
+    <div className="bot-controls">
+      <div className={status.running ? 'bot-status running' : 'bot-status stopped'}>
+        <strong>{status.running ? '🟢 Bot is running' : '⚪ Bot is stopped'}</strong>
+        {status.running && status.pid && (
+          <span className="bot-status-meta">PID {status.pid} · up {status.uptime ?? 0}s</span>
+        )}
+      </div>
+
+      {(error || status.error) && (
+        <div className="error-message">
+          ⚠️ {error || status.error}
+        </div>
+      )}
+
+      <div className="step-actions">
+        {status.running ? (
+          <button className="primary-button" onClick={handleStop} disabled={busy}>
+            Stop Bot
+          </button>
+        ) : (
+          <button className="primary-button" onClick={handleStart} disabled={busy}>
+            Start Bot
+          </button>
+        )}
+        <button className="secondary-button" onClick={onEditConfig} disabled={busy}>
+          Edit Configuration
+        </button>
+      </div>
+
+      <div className="logs-content">
+        {logs.length === 0 ? (
+          <div className="no-logs">No bot output yet...</div>
+        ) : (
+          logs.map((line, index) => (
+            <div key={index} className={line.includes('] [stderr] ') ? 'log-line warning' : 'log-line'}>
+              {line}
+            </div>
+          ))
+        )}
+      </div>
+    </div>
+  );
+}
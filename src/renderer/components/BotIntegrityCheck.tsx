@@ -0,0 +1,76 @@
+import React, { useState } from 'react';
+import { BundleVerification } from '../../types';
+
+const MAX_LISTED_FILES = 10;
+
+export default function BotIntegrityCheck() {
+  const [result, setResult] = useState<BundleVerification | null>(null);
+  const [checking, setChecking] = useState(false);
+  const [repairing, setRepairing] = useState(false);
+  const [message, setMessage] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleVerify = async () => {
+    setChecking(true);
+    setError(null);
+    setMessage(null);
+    const verification: BundleVerification | null = await window.electronAPI.invoke('bot:verify-installation');
+    if (verification) {
+      setResult(verification);
+    } else {
+      setError('No bot version is installed');
+    }
+    setChecking(false);
+  };
+
+  const handleRepair = async () => {
+    setRepairing(true);
+    setError(null);
+    const repair = await window.electronAPI.invoke('bot:repair-installation');
+    setRepairing(false);
+    if (repair.success) {
+      setMessage('Bot files were downloaded again.');
+      await handleVerify();
+    } else {
+      setError(repair.error || 'Repair failed');
+    }
+  };
+
+  const listFiles = (files: string[]) => {
+    const shown = files.slice(0, MAX_LISTED_FILES).join(', ');
+    return files.length > MAX_LISTED_FILES ? `${shown} and ${files.length - MAX_LISTED_FILES} more` : shown;
+  };
+
+  return (
+    <div className="bot-integrity">
+      <button className="text-button" onClick={handleVerify} disabled={checking || repairing}>
+        {checking ? 'Verifying files...' : 'Verify installation'}
+      </button>
+
+      {error && <div className="error-message">⚠️ {error}</div>}
+      {message && <div className="bot-versions-message">{message}</div>}
+
+      {result && (
+        <div className={result.healthy ? 'bot-integrity-result healthy' : 'bot-integrity-result unhealthy'}>
+          <strong>
+            {result.healthy ? `✅ ${result.version} is intact` : `⚠️ ${result.version} has problems`}
+          </strong>
+          {!result.hasManifest && (
+            <p>This bundle has no manifest, so only the executable could be checked.</p>
+          )}
+          {result.hasManifest && result.healthy && <p>{result.checkedFiles} files match the bundle manifest.</p>}
+          {result.error && <p>{result.error}</p>}
+          {result.missing.length > 0 && <p>Missing: {listFiles(result.missing)}</p>}
+          {result.modified.length > 0 && <p>Modified: {listFiles(result.modified)}</p>}
+          {result.problems?.map(problem => <p key={problem}>{problem}</p>)}
+
+          {!result.healthy && (
+            <button className="primary-button" onClick={handleRepair} disabled={repairing}>
+              {repairing ? 'Repairing...' : 'Repair (download again)'}
+            </button>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,103 @@
+import React, { useState, useEffect } from 'react';
+import { BotUpdateInfo } from '../../types';
+
+const LAUNCHER_DOWNLOAD_URL = 'https://github.com/Krenuds/toji-launcher/releases/latest';
+
+export default function BotUpdateBanner() {
+  const [update, setUpdate] = useState<BotUpdateInfo | null>(null);
+  const [applying, setApplying] = useState(false);
+  const [checking, setChecking] = useState(false);
+  const [progress, setProgress] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [upToDate, setUpToDate] = useState(false);
+
+  useEffect(() => {
+    window.electronAPI.invoke('bot:get-available-update').then(setUpdate);
+
+    const handleUpdateAvailable = (event: any, info: BotUpdateInfo) => {
+      setUpdate(info);
+      setUpToDate(false);
+    };
+
+    const handleDownloadProgress = (event: any, data: any) => {
+      setProgress(`${data.message} (${Math.round(data.progress)}%)`);
+    };
+
+    window.electronAPI.on('bot:update-available', handleUpdateAvailable);
+    window.electronAPI.on('bot:download-progress', handleDownloadProgress);
+
+    return () => {
+      window.electronAPI.off('bot:update-available', handleUpdateAvailable);
+      window.electronAPI.off('bot:download-progress', handleDownloadProgress);
+    };
+  }, []);
+
+  const handleCheck = async () => {
+    setChecking(true);
+    setError(null);
+    const info: BotUpdateInfo | null = await window.electronAPI.invoke('bot:check-for-updates');
+    setUpdate(info);
+    setUpToDate(!info);
+    setChecking(false);
+  };
+
+  const handleApply = async () => {
+    setApplying(true);
+    setError(null);
+    const result = await window.electronAPI.invoke('bot:apply-update');
+    if (result.success) {
+      setUpdate(null);
+      setUpToDate(true);
+    } else {
+      setError(result.error || 'Bot update failed');
+    }
+    setProgress(null);
+    setApplying(false);
+  };
+
+  if (!update) {
+    return (
+      <div className="bot-update">
+        <button className="text-button" onClick={handleCheck} disabled={checking}>
+          {checking ? 'Checking for updates...' : 'Check for bot updates'}
+        </button>
+        {upToDate && <span className="bot-update-meta">Your bot is up to date.</span>}
+      </div>
+    );
+  }
+
+  return (
+    <div className="bot-update available">
+      <strong>⬆️ Bot {update.latestVersion} is available</strong>
+      <span className="bot-update-meta">
+        {update.currentVersion ? `You have ${update.currentVersion}` : 'Installed version unknown'}
+      </span>
+
+      {update.notes && <pre className="bot-update-notes">{update.notes}</pre>}
+
+      {update.compatibility?.message && (
+        <div className={update.compatibility.compatible ? 'bot-update-meta' : 'error-message'}>
+          {update.compatibility.compatible ? '⚠️ ' : '⛔ '}{update.compatibility.message}
+        </div>
+      )}
+
+      {error && <div className="error-message">⚠️ {error}</div>}
+      {applying && progress && <div className="bot-update-meta">{progress}</div>}
+
+      <div className="step-actions">
+        {update.compatibility?.launcherUpdateRequired ? (
+          <button className="primary-button" onClick={() => window.electronAPI.system.openExternal(LAUNCHER_DOWNLOAD_URL)}>
+            Get Launcher Update
+          </button>
+        ) : (
+          <button className="primary-button" onClick={handleApply} disabled={applying}>
+            {applying ? 'Updating...' : 'Update Now'}
+          </button>
+        )}
+        <button className="secondary-button" onClick={() => setUpdate(null)} disabled={applying}>
+          Later
+        </button>
+      </div>
+    </div>
+  );
+}
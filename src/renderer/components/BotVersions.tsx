@@ -0,0 +1,102 @@
+import React, { useState, useEffect } from 'react';
+import { InstalledBotVersion } from '../../types';
+
+export default function BotVersions() {
+  const [versions, setVersions] = useState<InstalledBotVersion[]>([]);
+  const [busy, setBusy] = useState(false);
+  const [message, setMessage] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadVersions = async () => {
+    setVersions(await window.electronAPI.invoke('bot:list-versions'));
+  };
+
+  useEffect(() => {
+    loadVersions();
+
+    // Pick up versions installed by an update
+    const handleDownloadProgress = (event: any, data: any) => {
+      if (data.stage === 'complete' || data.stage === 'error') {
+        loadVersions();
+      }
+    };
+
+    window.electronAPI.on('bot:download-progress', handleDownloadProgress);
+    return () => {
+      window.electronAPI.off('bot:download-progress', handleDownloadProgress);
+    };
+  }, []);
+
+  const handleActivate = async (version: string) => {
+    setBusy(true);
+    setError(null);
+    setMessage(null);
+    const result = await window.electronAPI.invoke('bot:activate-version', version);
+    if (result.success) {
+      setMessage(`${version} is now active. Restart the bot to use it.`);
+    } else {
+      setError(result.error || 'Failed to activate version');
+    }
+    await loadVersions();
+    setBusy(false);
+  };
+
+  const handleDelete = async (version: string) => {
+    if (!window.confirm(`Delete bot version ${version}?`)) return;
+    setBusy(true);
+    setError(null);
+    setMessage(null);
+    const result = await window.electronAPI.invoke('bot:delete-version', version);
+    if (!result.success) {
+      setError(result.error || 'Failed to delete version');
+    }
+    await loadVersions();
+    setBusy(false);
+  };
+
+  if (versions.length === 0) {
+    return null;
+  }
+
+  return (
+    <div className="bot-versions">
+      <h4>Installed Versions</h4>
+
+      {error && <div className="error-message">⚠️ {error}</div>}
+      {message && <div className="bot-versions-message">{message}</div>}
+
+      <ul className="bot-versions-list">
+        {versions.map(entry => (
+          <li key={entry.version} className={entry.active ? 'bot-version active' : 'bot-version'}>
+            <span className="bot-version-name">
+              {entry.version}
+              {entry.active && <span className="bot-version-tag">active</span>}
+              {!entry.runnable && <span className="bot-version-tag broken">broken</span>}
+            </span>
+            <span className="bot-version-date">
+              {new Date(entry.installedAt).toLocaleDateString()}
+            </span>
+            {!entry.active && (
+              <span className="bot-version-actions">
+                <button
+                  className="text-button"
+                  onClick={() => handleActivate(entry.version)}
+                  disabled={busy || !entry.runnable}
+                >
+                  Activate
+                </button>
+                <button
+                  className="text-button"
+                  onClick={() => handleDelete(entry.version)}
+                  disabled={busy}
+                >
+                  Delete
+                </button>
+              </span>
+            )}
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
@@ -1,5 +1,8 @@
-import React, { useState } from 'react';
+import React, { useState, useEffect } from 'react';
 import { InstallationPlan } from '../../main/system-setup';
+import NodeToolchainSettings from './NodeToolchainSettings';
+
+const SYSTEM_PACKAGE_MANAGERS = ['apt', 'dnf', 'yum', 'pacman', 'zypper', 'apk'];
 
 interface InstallationPlanViewProps {
   plan: InstallationPlan;
@@ -9,11 +12,30 @@ interface InstallationPlanViewProps {
 
 export default function InstallationPlanView({ plan, onInstall, onCancel }: InstallationPlanViewProps) {
   const [showDetails, setShowDetails] = useState(false);
+  const [showToolchain, setShowToolchain] = useState(false);
+  const [toolchainVersion, setToolchainVersion] = useState('');
+  const [toolchainError, setToolchainError] = useState<string | null>(null);
+
+  const installsNode = plan.items.some(item => item.name === 'Node.js');
+
+  useEffect(() => {
+    window.electronAPI.invoke('settings:get').then(settings => setToolchainVersion(settings.nodeToolchainVersion || ''));
+  }, []);
+
+  // The download strategy installs whichever LTS line is saved, so save the choice straight away
+  const handleToolchainVersionChange = async (version: string) => {
+    setToolchainVersion(version);
+    const result = await window.electronAPI.invoke('settings:update', { nodeToolchainVersion: version });
+    setToolchainError(result.success ? null : result.error || 'Failed to save Node.js version');
+  };
 
   const getMethodDescription = (method: string) => {
+    if (SYSTEM_PACKAGE_MANAGERS.includes(method)) {
+      return `System package manager (${method})`;
+    }
     switch (method) {
-      case 'apt':
-        return 'System package manager';
+      case 'nodesource':
+        return 'NodeSource repository';
       case 'npm':
         return 'Node.js package manager';
       case 'download':
@@ -26,8 +48,11 @@ export default function InstallationPlanView({ plan, onInstall, onCancel }: Inst
   };
 
   const getMethodIcon = (method: string) => {
+    if (SYSTEM_PACKAGE_MANAGERS.includes(method)) {
+      return '📦';
+    }
     switch (method) {
-      case 'apt':
+      case 'nodesource':
         return '📦';
       case 'npm':
         return '📁';
@@ -43,10 +68,14 @@ export default function InstallationPlanView({ plan, onInstall, onCancel }: Inst
   return (
     <div className="setup-step installation-plan-step">
       <div className="step-icon">📋</div>
-      <h2>Ready to install dependencies</h2>
+      <h2>{plan.items.every(item => item.upgrade) ? 'Ready to upgrade dependencies' : 'Ready to install dependencies'}</h2>
       
       <div className="installation-summary">
-        <p>We need to install the following items:</p>
+        <p>
+          {plan.items.some(item => item.upgrade)
+            ? 'We need to install or upgrade the following items:'
+            : 'We need to install the following items:'}
+        </p>
         
         <div className="installation-items">
           {plan.items.map((item, index) => (
@@ -54,7 +83,9 @@ export default function InstallationPlanView({ plan, onInstall, onCancel }: Inst
               <div className="item-header">
                 <span className="item-icon">{getMethodIcon(item.method)}</span>
                 <div className="item-info">
-                  <h3 className="item-name">{item.name}</h3>
+                  <h3 className="item-name">
+                    {item.upgrade ? `Upgrade ${item.name}` : item.name}
+                  </h3>
                   <div className="item-meta">
                     <span className="item-size">{item.size}</span>
                     <span className="item-time">{item.estimatedTime}</span>
@@ -63,6 +94,13 @@ export default function InstallationPlanView({ plan, onInstall, onCancel }: Inst
                 </div>
               </div>
               
+              {item.upgrade && (
+                <div className="item-description">
+                  {item.upgrade.from ? `Installed version ${item.upgrade.from} is too old` : 'Installed version is too old'}
+                  {item.upgrade.range && ` - needs ${item.upgrade.range}`}
+                </div>
+              )}
+
               {showDetails && (
                 <div className="item-description">
                   {item.description}
@@ -85,7 +123,9 @@ export default function InstallationPlanView({ plan, onInstall, onCancel }: Inst
               <span className="info-label">Administrator access:</span>
               <span className="info-value">Required</span>
               <div className="sudo-explanation">
-                You'll be asked for your password ONCE at the start of installation.
+                {plan.items.filter(item => item.requiresSudo).length > 1
+                  ? 'You\'ll be asked for your password before each step that needs it.'
+                  : 'You\'ll be asked for your password ONCE during installation.'}
               </div>
             </div>
           )}
@@ -121,8 +161,29 @@ export default function InstallationPlanView({ plan, onInstall, onCancel }: Inst
         >
           {showDetails ? 'Hide Details' : 'What does this do?'}
         </button>
+
+        {installsNode && (
+          <button className="text-button" onClick={() => setShowToolchain(!showToolchain)}>
+            {showToolchain ? 'Hide Node.js options' : 'Node.js version'}
+          </button>
+        )}
       </div>
 
+      {showToolchain && (
+        <div className="config-form launcher-settings">
+          {toolchainError && (
+            <div className="error-message">
+              ⚠️ {toolchainError}
+            </div>
+          )}
+          <NodeToolchainSettings
+            version={toolchainVersion}
+            onVersionChange={handleToolchainVersionChange}
+            onError={setToolchainError}
+          />
+        </div>
+      )}
+
       {showDetails && (
         <div className="installation-details">
           <h3>Installation Details</h3>
@@ -131,21 +192,41 @@ export default function InstallationPlanView({ plan, onInstall, onCancel }: Inst
             <ol>
               {plan.items.map((item, index) => (
                 <li key={index}>
-                  <strong>{item.name}</strong> will be installed using {getMethodDescription(item.method)}
-                  {item.method === 'apt' && (
+                  <strong>{item.name}</strong> will be {item.upgrade ? 'upgraded' : 'installed'} using {getMethodDescription(item.method)}
+                  {SYSTEM_PACKAGE_MANAGERS.includes(item.method) && (
                     <div className="method-details">
                       • Updates system package lists<br/>
                       • Downloads and installs from official repositories<br/>
                       • Requires administrator privileges
                     </div>
                   )}
+                  {item.method === 'nodesource' && (
+                    <div className="method-details">
+                      • Adds the official NodeSource repository<br/>
+                      • Installs the current LTS release of Node.js<br/>
+                      • Requires administrator privileges
+                    </div>
+                  )}
+                  {item.method === 'download' && (
+                    <div className="method-details">
+                      • Downloads the official Node.js LTS build from nodejs.org<br/>
+                      • Checks it against the published SHA-256 checksums<br/>
+                      • Installs it into the launcher's data folder<br/>
+                      • No administrator privileges needed
+                    </div>
+                  )}
                   {item.method === 'npm' && (
                     <div className="method-details">
-                      • Installs globally using Node.js package manager<br/>
+                      • Installs into the launcher's own npm folder<br/>
                       • Downloads from npmjs.org registry<br/>
                       • Requires Node.js to be installed first
                     </div>
                   )}
+                  {item.fallbacks.length > 0 && (
+                    <div className="method-details">
+                      If that fails: {item.fallbacks.join(', then ')}
+                    </div>
+                  )}
                 </li>
               ))}
             </ol>
@@ -156,7 +237,7 @@ export default function InstallationPlanView({ plan, onInstall, onCancel }: Inst
               <li>No third-party or unofficial packages</li>
               <li>Installation logs are available for review</li>
               {plan.requiresSudo && (
-                <li>Administrator privileges requested once and used only for system package installation</li>
+                <li>Administrator privileges are used only for the steps marked as needing them</li>
               )}
             </ul>
           </div>
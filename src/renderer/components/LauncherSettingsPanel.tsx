@@ -0,0 +1,180 @@
+import React, { useState, useEffect } from 'react';
+import { LauncherSettings } from '../../main/launcher-settings';
+import { RestartPolicy } from '../../types';
+import NodeToolchainSettings from './NodeToolchainSettings';
+
+interface LauncherSettingsPanelProps {
+  onClose: () => void;
+}
+
+// Restart policy fields edited in the form, with the unit each is shown in
+const RESTART_POLICY_FIELDS: Array<{ key: Exclude<keyof RestartPolicy, 'enabled'>; label: string; unitMs: number }> = [
+  { key: 'maxRestarts', label: 'Restarts allowed per window', unitMs: 1 },
+  { key: 'windowMs', label: 'Restart window (minutes)', unitMs: 60 * 1000 },
+  { key: 'initialBackoffMs', label: 'First restart delay (seconds)', unitMs: 1000 },
+  { key: 'maxBackoffMs', label: 'Maximum restart delay (seconds)', unitMs: 1000 }
+];
+
+export default function LauncherSettingsPanel({ onClose }: LauncherSettingsPanelProps) {
+  const [settings, setSettings] = useState<LauncherSettings>({});
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [effectiveRestartPolicy, setEffectiveRestartPolicy] = useState<RestartPolicy | null>(null);
+
+  useEffect(() => {
+    window.electronAPI.invoke('settings:get').then(setSettings);
+    window.electronAPI.invoke('bot:get-restart-policy').then(setEffectiveRestartPolicy);
+  }, []);
+
+  const restartPolicy = settings.botRestartPolicy || {};
+
+  const updateRestartPolicy = (update: Partial<RestartPolicy>) => {
+    const merged: Partial<RestartPolicy> = { ...restartPolicy, ...update };
+    for (const key of Object.keys(merged) as Array<keyof RestartPolicy>) {
+      if (merged[key] === undefined) {
+        delete merged[key];
+      }
+    }
+    setSettings({ ...settings, botRestartPolicy: merged });
+  };
+
+  const handleSave = async () => {
+    setSaving(true);
+    setError(null);
+
+    try {
+      const result = await window.electronAPI.invoke('settings:update', {
+        oauthServerUrl: settings.oauthServerUrl || '',
+        oauthCertFingerprint: settings.oauthCertFingerprint || '',
+        proxyUrl: settings.proxyUrl || '',
+        noProxy: settings.noProxy || '',
+        caCertificatesPath: settings.caCertificatesPath || '',
+        botSigningKeyPath: settings.botSigningKeyPath || '',
+        nodeToolchainVersion: settings.nodeToolchainVersion || '',
+        botRestartPolicy: restartPolicy
+      });
+      if (result.success) {
+        onClose();
+      } else {
+        setError(result.error || 'Failed to save settings');
+      }
+    } catch (err: any) {
+      setError(`Failed to save settings: ${err.message}`);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="config-form launcher-settings">
+      {error && (
+        <div className="error-message">
+          ⚠️ {error}
+        </div>
+      )}
+
+      <label className="config-field">
+        <span className="config-label">OAuth server URL</span>
+        <input
+          type="text"
+          value={settings.oauthServerUrl || ''}
+          placeholder="https://auth.example.com (leave blank for default)"
+          onChange={(e) => setSettings({ ...settings, oauthServerUrl: e.target.value })}
+        />
+      </label>
+
+      <label className="config-field">
+        <span className="config-label">Pinned certificate fingerprint (optional)</span>
+        <input
+          type="text"
+          value={settings.oauthCertFingerprint || ''}
+          placeholder="sha256/... or AB:CD:..."
+          onChange={(e) => setSettings({ ...settings, oauthCertFingerprint: e.target.value })}
+        />
+      </label>
+
+      <label className="config-field">
+        <span className="config-label">Download proxy (optional)</span>
+        <input
+          type="text"
+          value={settings.proxyUrl || ''}
+          placeholder="http://proxy.example.com:3128 (defaults to HTTPS_PROXY)"
+          onChange={(e) => setSettings({ ...settings, proxyUrl: e.target.value })}
+        />
+      </label>
+
+      <label className="config-field">
+        <span className="config-label">Bypass proxy for (optional)</span>
+        <input
+          type="text"
+          value={settings.noProxy || ''}
+          placeholder="localhost, .internal.example.com (defaults to NO_PROXY)"
+          onChange={(e) => setSettings({ ...settings, noProxy: e.target.value })}
+        />
+      </label>
+
+      <label className="config-field">
+        <span className="config-label">Extra CA certificates file (optional)</span>
+        <input
+          type="text"
+          value={settings.caCertificatesPath || ''}
+          placeholder="/path/to/corporate-ca.pem"
+          onChange={(e) => setSettings({ ...settings, caCertificatesPath: e.target.value })}
+        />
+      </label>
+
+      <label className="config-field">
+        <span className="config-label">Bot release signing key (optional)</span>
+        <input
+          type="text"
+          value={settings.botSigningKeyPath || ''}
+          placeholder="/path/to/toji-release-ed25519.pub.pem"
+          onChange={(e) => setSettings({ ...settings, botSigningKeyPath: e.target.value })}
+        />
+        <span className="config-hint">When set, only bot releases signed with this Ed25519 key can be installed</span>
+      </label>
+
+      <NodeToolchainSettings
+        version={settings.nodeToolchainVersion || ''}
+        onVersionChange={(nodeToolchainVersion) => setSettings({ ...settings, nodeToolchainVersion })}
+        onError={setError}
+        disabled={saving}
+      />
+
+      <h4>Bot restarts</h4>
+
+      <label className="config-field">
+        <input
+          type="checkbox"
+          checked={restartPolicy.enabled ?? effectiveRestartPolicy?.enabled ?? true}
+          onChange={(e) => updateRestartPolicy({ enabled: e.target.checked })}
+        />
+        {' '}Restart the bot automatically when it crashes
+      </label>
+
+      {RESTART_POLICY_FIELDS.map(({ key, label, unitMs }) => (
+        <label className="config-field" key={key}>
+          <span className="config-label">{label}</span>
+          <input
+            type="number"
+            min={0}
+            value={restartPolicy[key] === undefined ? '' : restartPolicy[key]! / unitMs}
+            placeholder={effectiveRestartPolicy ? `${effectiveRestartPolicy[key] / unitMs} (default)` : ''}
+            onChange={(e) => updateRestartPolicy({
+              [key]: e.target.value === '' ? undefined : Math.round(Number(e.target.value) * unitMs)
+            })}
+          />
+        </label>
+      ))}
+
+      <div className="step-actions">
+        <button className="primary-button" onClick={handleSave} disabled={saving}>
+          {saving ? 'Saving...' : 'Save Settings'}
+        </button>
+        <button className="secondary-button" onClick={onClose}>
+          Cancel
+        </button>
+      </div>
+    </div>
+  );
+}
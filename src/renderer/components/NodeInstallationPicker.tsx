@@ -0,0 +1,89 @@
+import React, { useState, useEffect } from 'react';
+import { NodeInstallation, NodeInstallationSource } from '../../types';
+
+const SOURCE_LABELS: Record<NodeInstallationSource, string> = {
+  launcher: 'Launcher-managed',
+  nvm: 'nvm',
+  fnm: 'fnm',
+  volta: 'Volta',
+  asdf: 'asdf',
+  homebrew: 'Homebrew',
+  path: 'System PATH'
+};
+
+interface NodeInstallationPickerProps {
+  onSelected?: () => void;
+}
+
+export default function NodeInstallationPicker({ onSelected }: NodeInstallationPickerProps) {
+  const [installations, setInstallations] = useState<NodeInstallation[]>([]);
+  const [pinned, setPinned] = useState<string | undefined>();
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadInstallations = async () => {
+    setInstallations(await window.electronAPI.invoke('system-setup:list-node-installations'));
+    setPinned((await window.electronAPI.invoke('settings:get')).nodeBinDirectory);
+  };
+
+  useEffect(() => {
+    loadInstallations();
+  }, []);
+
+  const handleSelect = async (binDirectory: string | null) => {
+    setBusy(true);
+    setError(null);
+    const result = await window.electronAPI.invoke('system-setup:select-node-installation', binDirectory);
+    if (result.success) {
+      await loadInstallations();
+      onSelected?.();
+    } else {
+      setError(result.error || 'Failed to switch Node.js');
+    }
+    setBusy(false);
+  };
+
+  if (installations.length === 0) {
+    return null;
+  }
+
+  return (
+    <div className="bot-versions node-installations">
+      <h4>Node.js installations</h4>
+
+      {error && <div className="error-message">⚠️ {error}</div>}
+
+      <ul className="bot-versions-list">
+        {installations.map(installation => (
+          <li
+            key={installation.binDirectory}
+            className={installation.active ? 'bot-version active' : 'bot-version'}
+            title={installation.binDirectory}
+          >
+            <span className="bot-version-name">
+              {installation.version}
+              {installation.active && <span className="bot-version-tag">in use</span>}
+              {!installation.supported && <span className="bot-version-tag broken">too old</span>}
+            </span>
+            <span className="bot-version-date">{SOURCE_LABELS[installation.source]}</span>
+            {!installation.active && (
+              <button
+                className="text-button"
+                onClick={() => handleSelect(installation.binDirectory)}
+                disabled={busy || !installation.supported}
+              >
+                Use this
+              </button>
+            )}
+          </li>
+        ))}
+      </ul>
+
+      {pinned && (
+        <button className="text-button" onClick={() => handleSelect(null)} disabled={busy}>
+          Stop using the picked installation
+        </button>
+      )}
+    </div>
+  );
+}
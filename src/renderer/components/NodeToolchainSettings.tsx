@@ -0,0 +1,95 @@
+import React, { useState, useEffect } from 'react';
+import { NodeLtsRelease, NodeToolchainStatus } from '../../types';
+import NodeInstallationPicker from './NodeInstallationPicker';
+
+interface NodeToolchainSettingsProps {
+  // Selected LTS major, or empty for the newest LTS
+  version: string;
+  onVersionChange: (version: string) => void;
+  onError: (error: string | null) => void;
+  disabled?: boolean;
+}
+
+/**
+ * Launcher-managed Node.js: pick the LTS line, install it, or use another installation
+ */
+export default function NodeToolchainSettings({ version, onVersionChange, onError, disabled }: NodeToolchainSettingsProps) {
+  const [toolchain, setToolchain] = useState<NodeToolchainStatus | null>(null);
+  const [ltsReleases, setLtsReleases] = useState<NodeLtsRelease[]>([]);
+  const [toolchainProgress, setToolchainProgress] = useState<string | null>(null);
+  const [installingToolchain, setInstallingToolchain] = useState(false);
+
+  useEffect(() => {
+    window.electronAPI.invoke('node-toolchain:get-status').then(setToolchain);
+    window.electronAPI.invoke('node-toolchain:list-lts').then((result) => {
+      if (result.success) {
+        setLtsReleases(result.releases);
+      }
+    });
+
+    const handleToolchainProgress = (event: any, data: { step: string; progress: number }) => {
+      setToolchainProgress(`${data.step} (${Math.round(data.progress)}%)`);
+    };
+
+    window.electronAPI.on('node-toolchain:progress', handleToolchainProgress);
+
+    return () => {
+      window.electronAPI.off('node-toolchain:progress', handleToolchainProgress);
+    };
+  }, []);
+
+  const handleInstallToolchain = async () => {
+    setInstallingToolchain(true);
+    onError(null);
+
+    // The install follows the saved selection
+    const saved = await window.electronAPI.invoke('settings:update', {
+      nodeToolchainVersion: version
+    });
+    const result = saved.success
+      ? await window.electronAPI.invoke('node-toolchain:install')
+      : saved;
+
+    if (result.success) {
+      setToolchain(result.status);
+    } else {
+      onError(result.error || 'Failed to install Node.js');
+    }
+    setToolchainProgress(null);
+    setInstallingToolchain(false);
+  };
+
+  return (
+    <>
+      <label className="config-field">
+        <span className="config-label">Launcher-managed Node.js</span>
+        <select
+          value={version || 'lts'}
+          onChange={(e) => onVersionChange(e.target.value === 'lts' ? '' : e.target.value)}
+          disabled={installingToolchain}
+        >
+          <option value="lts">Newest LTS{ltsReleases[0] ? ` (${ltsReleases[0].version})` : ''}</option>
+          {ltsReleases.map(release => (
+            <option key={release.major} value={String(release.major)}>
+              Node.js {release.major} "{release.codename}" ({release.version})
+            </option>
+          ))}
+        </select>
+        <span className="config-hint">
+          {toolchain?.installed
+            ? `Installed: ${toolchain.version}. Global npm packages go to ${toolchain.npmPrefix}`
+            : 'Not installed - used when no system Node.js can be installed'}
+        </span>
+      </label>
+
+      <div className="step-actions">
+        <button className="secondary-button" onClick={handleInstallToolchain} disabled={installingToolchain || disabled}>
+          {installingToolchain ? 'Installing Node.js...' : toolchain?.installed ? 'Reinstall Node.js' : 'Install Node.js'}
+        </button>
+        {toolchainProgress && <span className="config-hint">{toolchainProgress}</span>}
+      </div>
+
+      <NodeInstallationPicker key={toolchain?.version} />
+    </>
+  );
+}
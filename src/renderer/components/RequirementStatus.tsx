@@ -14,6 +14,8 @@ export default function RequirementStatus({ requirements }: RequirementStatusPro
         return <span className="status-icon found">✅</span>;
       case 'missing':
         return <span className="status-icon missing">❌</span>;
+      case 'outdated':
+        return <span className="status-icon outdated">⬆️</span>;
       case 'error':
         return <span className="status-icon error">⚠️</span>;
       case 'skipped':
@@ -31,6 +33,10 @@ export default function RequirementStatus({ requirements }: RequirementStatusPro
         return req.version ? `Found (${req.version})` : 'Found';
       case 'missing':
         return 'Not installed';
+      case 'outdated':
+        return req.requiredRange
+          ? `Outdated (${req.version}, needs ${req.requiredRange})`
+          : `Outdated (${req.version})`;
       case 'error':
         return 'Check failed';
       case 'skipped':
@@ -1,11 +1,19 @@
 import React, { useState, useEffect } from 'react';
 import { SystemRequirement, InstallationPlan, InstallProgress } from '../../main/system-setup';
 import { DownloadProgress } from '../../main/bot-downloader';
+import { NodeInstallation, ReleaseCompatibility } from '../../types';
 import RequirementStatus from './RequirementStatus';
 import InstallationPlanView from './InstallationPlanView';
 import ProgressDisplay from './ProgressDisplay';
+import NodeInstallationPicker from './NodeInstallationPicker';
+import LauncherSettingsPanel from './LauncherSettingsPanel';
 
-type SetupStep = 'welcome' | 'checking' | 'plan' | 'installing' | 'dependencies-complete' | 'bot-downloading' | 'complete' | 'error';
+type SetupStep = 'welcome' | 'checking' | 'choose-node' | 'plan' | 'installing' | 'dependencies-complete' | 'bot-downloading' | 'launcher-update-required' | 'complete' | 'error';
+
+const LAUNCHER_DOWNLOAD_URL = 'https://github.com/Krenuds/toji-launcher/releases/latest';
+
+// Missing requirements get installed, outdated ones upgraded through the same plan
+const needsInstall = (req: SystemRequirement) => req.status === 'missing' || req.status === 'outdated';
 
 interface SetupFlowProps {
   onComplete: () => void;
@@ -18,6 +26,7 @@ export default function SetupFlow({ onComplete }: SetupFlowProps) {
   const [installProgress, setInstallProgress] = useState<InstallProgress | null>(null);
   const [downloadProgress, setDownloadProgress] = useState<DownloadProgress | null>(null);
   const [error, setError] = useState<string | null>(null);
+  const [compatibility, setCompatibility] = useState<ReleaseCompatibility | null>(null);
 
   useEffect(() => {
     // Listen for requirement updates
@@ -46,6 +55,8 @@ export default function SetupFlow({ onComplete }: SetupFlowProps) {
       setDownloadProgress(progress);
       if (progress.stage === 'complete') {
         setCurrentStep('complete');
+      } else if (progress.stage === 'cancelled') {
+        setCurrentStep('dependencies-complete');
       } else if (progress.stage === 'error') {
         setError(`Bot download failed: ${progress.error}`);
         setCurrentStep('error');
@@ -81,15 +92,16 @@ export default function SetupFlow({ onComplete }: SetupFlowProps) {
       const checkedRequirements = await window.electronAPI.invoke('system-setup:check-requirements');
       setRequirements(checkedRequirements);
       
-      const missingRequirements = checkedRequirements.filter((req: SystemRequirement) => req.status === 'missing');
+      const missingRequirements = checkedRequirements.filter(needsInstall);
       
       if (missingRequirements.length === 0) {
         // Dependencies are ready, check if bot needs to be downloaded
         await checkAndDownloadBot();
+      } else if (await hasUsableNode(missingRequirements)) {
+        // Offer Node.js from nvm, volta etc. before installing a second copy
+        setCurrentStep('choose-node');
       } else {
-        const plan = await window.electronAPI.invoke('system-setup:get-installation-plan', missingRequirements);
-        setInstallationPlan(plan);
-        setCurrentStep('plan');
+        await showInstallationPlan(missingRequirements);
       }
     } catch (err: any) {
       setError(`Failed to check system requirements: ${err.message}`);
@@ -97,6 +109,27 @@ export default function SetupFlow({ onComplete }: SetupFlowProps) {
     }
   };
 
+  const hasUsableNode = async (missingRequirements: SystemRequirement[]): Promise<boolean> => {
+    if (!missingRequirements.some(req => req.name === 'Node.js')) return false;
+    const installations: NodeInstallation[] = await window.electronAPI.invoke('system-setup:list-node-installations');
+    return installations.some(installation => installation.supported);
+  };
+
+  const showInstallationPlan = async (missingRequirements: SystemRequirement[]) => {
+    const plan = await window.electronAPI.invoke('system-setup:get-installation-plan', missingRequirements);
+    setInstallationPlan(plan);
+    setCurrentStep('plan');
+  };
+
+  const handleInstallNewNode = async () => {
+    try {
+      await showInstallationPlan(requirements.filter(needsInstall));
+    } catch (err: any) {
+      setError(`Failed to plan installation: ${err.message}`);
+      setCurrentStep('error');
+    }
+  };
+
   const handleStartInstallation = async () => {
     if (!installationPlan) return;
     
@@ -131,6 +164,8 @@ export default function SetupFlow({ onComplete }: SetupFlowProps) {
       const isBotInstalled = await window.electronAPI.invoke('bot:check-installed');
       if (isBotInstalled) {
         setCurrentStep('complete');
+      } else if (await needsLauncherUpdate()) {
+        setCurrentStep('launcher-update-required');
       } else {
         setCurrentStep('dependencies-complete');
       }
@@ -140,7 +175,24 @@ export default function SetupFlow({ onComplete }: SetupFlowProps) {
     }
   };
 
+  // Check the latest release suits this launcher before offering to install it
+  const needsLauncherUpdate = async (): Promise<boolean> => {
+    try {
+      const result: ReleaseCompatibility = await window.electronAPI.invoke('bot:check-compatibility');
+      setCompatibility(result);
+      return result.launcherUpdateRequired;
+    } catch (err: any) {
+      // Release lookup problems are reported by the download itself
+      console.error('Failed to check bot compatibility:', err);
+      return false;
+    }
+  };
+
   const handleDownloadBot = async () => {
+    if (await needsLauncherUpdate()) {
+      setCurrentStep('launcher-update-required');
+      return;
+    }
     setCurrentStep('bot-downloading');
     try {
       await window.electronAPI.invoke('bot:download');
@@ -151,6 +203,10 @@ export default function SetupFlow({ onComplete }: SetupFlowProps) {
     }
   };
 
+  const handleCancelDownload = async () => {
+    await window.electronAPI.invoke('bot:cancel-download');
+  };
+
   return (
     <div className="setup-flow">
       {currentStep === 'welcome' && (
@@ -161,6 +217,10 @@ export default function SetupFlow({ onComplete }: SetupFlowProps) {
         <CheckingStep requirements={requirements} />
       )}
 
+      {currentStep === 'choose-node' && (
+        <ChooseNodeStep onSelected={handleStartSetup} onInstallNew={handleInstallNewNode} />
+      )}
+
       {currentStep === 'plan' && installationPlan && (
         <InstallationPlanView 
           plan={installationPlan} 
@@ -177,8 +237,12 @@ export default function SetupFlow({ onComplete }: SetupFlowProps) {
         <DependenciesCompleteStep onDownloadBot={handleDownloadBot} />
       )}
 
+      {currentStep === 'launcher-update-required' && compatibility && (
+        <LauncherUpdateRequiredStep compatibility={compatibility} onRetry={handleRetry} />
+      )}
+
       {currentStep === 'bot-downloading' && downloadProgress && (
-        <BotDownloadStep progress={downloadProgress} />
+        <BotDownloadStep progress={downloadProgress} onCancel={handleCancelDownload} />
       )}
 
       {currentStep === 'complete' && (
@@ -229,6 +293,30 @@ function CheckingStep({ requirements }: { requirements: SystemRequirement[] }) {
   );
 }
 
+function ChooseNodeStep({ onSelected, onInstallNew }: {
+  onSelected: () => void;
+  onInstallNew: () => void;
+}) {
+  return (
+    <div className="setup-step choose-node-step">
+      <div className="step-icon">🟢</div>
+      <h2>Node.js is already installed</h2>
+      <p>
+        We found Node.js outside the launcher's PATH, for example from nvm, Volta or Homebrew.
+        Pick the one the launcher should use, or install a separate copy.
+      </p>
+
+      <NodeInstallationPicker onSelected={onSelected} />
+
+      <div className="step-actions">
+        <button className="secondary-button" onClick={onInstallNew}>
+          Install a new copy instead
+        </button>
+      </div>
+    </div>
+  );
+}
+
 function CompleteStep({ requirements, onContinue }: { 
   requirements: SystemRequirement[]; 
   onContinue: () => void; 
@@ -268,6 +356,8 @@ function CompleteStep({ requirements, onContinue }: {
 
 
 function DependenciesCompleteStep({ onDownloadBot }: { onDownloadBot: () => void }) {
+  const [showSettings, setShowSettings] = useState(false);
+
   return (
     <div className="setup-step dependencies-complete-step">
       <div className="step-icon success">✅</div>
@@ -285,15 +375,23 @@ function DependenciesCompleteStep({ onDownloadBot }: { onDownloadBot: () => void
       </div>
 
       <div className="step-actions">
-        <button className="primary-button" onClick={onDownloadBot}>
+        <button className="primary-button" onClick={onDownloadBot} disabled={showSettings}>
           Download Bot
         </button>
+        <button className="text-button" onClick={() => setShowSettings(!showSettings)}>
+          Release signing key
+        </button>
       </div>
+
+      {/* Set before the first download so an unsigned or foreign release is never installed */}
+      {showSettings && (
+        <LauncherSettingsPanel onClose={() => setShowSettings(false)} />
+      )}
     </div>
   );
 }
 
-function BotDownloadStep({ progress }: { progress: DownloadProgress }) {
+function BotDownloadStep({ progress, onCancel }: { progress: DownloadProgress; onCancel: () => void }) {
   const getProgressMessage = () => {
     switch (progress.stage) {
       case 'checking':
@@ -340,11 +438,40 @@ function BotDownloadStep({ progress }: { progress: DownloadProgress }) {
           <p>{progress.error}</p>
         </div>
       )}
+
+      {progress.stage === 'downloading' && (
+        <div className="step-actions">
+          <button className="secondary-button" onClick={onCancel}>
+            Cancel Download
+          </button>
+        </div>
+      )}
+    </div>
+  );
+}
+
+function LauncherUpdateRequiredStep({ compatibility, onRetry }: { compatibility: ReleaseCompatibility; onRetry: () => void }) {
+  return (
+    <div className="setup-step error-step">
+      <div className="step-icon">⬆️</div>
+      <h2>Launcher Update Required</h2>
+      <p>{compatibility.message}</p>
+
+      <div className="step-actions">
+        <button className="primary-button" onClick={() => window.electronAPI.system.openExternal(LAUNCHER_DOWNLOAD_URL)}>
+          Download Launcher Update
+        </button>
+        <button className="secondary-button" onClick={onRetry}>
+          Check Again
+        </button>
+      </div>
     </div>
   );
 }
 
 function ErrorStep({ error, onRetry }: { error: string; onRetry: () => void }) {
+  const [showSettings, setShowSettings] = useState(false);
+
   return (
     <div className="setup-step error-step">
       <div className="step-icon error">❌</div>
@@ -357,6 +484,7 @@ function ErrorStep({ error, onRetry }: { error: string; onRetry: () => void }) {
         <h3>What you can try:</h3>
         <ul>
           <li>Check your internet connection</li>
+          <li>Behind a corporate proxy? Set the proxy and CA certificates in the network settings below</li>
           <li>Make sure you have administrator privileges</li>
           <li>Try running the setup again</li>
           <li>Install Node.js manually from <a href="https://nodejs.org/" target="_blank">nodejs.org</a></li>
@@ -370,7 +498,14 @@ function ErrorStep({ error, onRetry }: { error: string; onRetry: () => void }) {
         <button className="secondary-button" onClick={() => window.electronAPI.system.openExternal('https://nodejs.org/')}>
           Install Node.js Manually
         </button>
+        <button className="text-button" onClick={() => setShowSettings(!showSettings)}>
+          Network settings
+        </button>
       </div>
+
+      {showSettings && (
+        <LauncherSettingsPanel onClose={() => setShowSettings(false)} />
+      )}
     </div>
   );
 }
\ No newline at end of file
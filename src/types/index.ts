@@ -5,6 +5,8 @@ export interface UserInfo {
   username: string;
   discriminator: string;
   avatar?: string;
+  // Set when the token has expired and the OAuth server couldn't be reached to refresh it
+  unverified?: boolean;
 }
 
 export interface BotStatus {
@@ -14,6 +16,105 @@ export interface BotStatus {
   error?: string;
 }
 
+export interface AccountSummary {
+  user: UserInfo;
+  active: boolean;
+  // The server rejected this account's session; it needs a new login
+  sessionExpired?: boolean;
+}
+
+export interface RestartRecord {
+  timestamp: number;
+  exitCode: number | null;
+  signal: string | null;
+  attempt: number;   // Position within the current restart window
+  delayMs: number;   // Backoff applied before restarting
+}
+
+export interface RestartPolicy {
+  enabled: boolean;
+  maxRestarts: number;      // Restarts allowed within windowMs before giving up
+  windowMs: number;
+  initialBackoffMs: number; // Delay before the first restart, doubled each time
+  maxBackoffMs: number;
+}
+
+export interface LogEntry {
+  timestamp: number;
+  stream: 'stdout' | 'stderr';
+  line: string;
+}
+
+export interface LogFilter {
+  stream?: 'stdout' | 'stderr';
+  since?: number;  // Inclusive epoch milliseconds
+  until?: number;
+}
+
+export interface InstalledBotVersion {
+  version: string;
+  active: boolean;
+  installedAt: number;
+  runnable: boolean;  // Executable present and marked executable
+}
+
+export interface BotUpdateInfo {
+  currentVersion: string | null;
+  latestVersion: string;
+  notes?: string;
+  checkedAt: number;
+  compatibility?: ReleaseCompatibility;
+}
+
+export interface BundleVerification {
+  version: string;
+  hasManifest: boolean;
+  healthy: boolean;
+  checkedFiles: number;
+  missing: string[];
+  modified: string[];
+  minLauncherVersion?: string;
+  nodeVersion?: string;
+  problems?: string[];  // Executable or compatibility problems found alongside the file check
+  error?: string;
+}
+
+export interface ReleaseCompatibility {
+  compatible: boolean;
+  launcherUpdateRequired: boolean;
+  releaseVersion: string;
+  launcherVersion: string;
+  minLauncherVersion?: string;
+  maxLauncherVersion?: string;
+  message?: string;  // Reason for refusing, or a warning when still compatible
+}
+
+export interface NodeLtsRelease {
+  version: string;   // e.g. 'v22.11.0'
+  major: number;
+  codename: string;  // LTS codename, e.g. 'Jod'
+  date: string;
+}
+
+export interface NodeToolchainStatus {
+  installed: boolean;
+  selection: string;       // 'lts' or a major version
+  version?: string;
+  binDirectory?: string;
+  npmPrefix: string;       // User-owned prefix for global npm installs
+  installedAt?: number;
+}
+
+export type NodeInstallationSource = 'launcher' | 'nvm' | 'fnm' | 'volta' | 'asdf' | 'homebrew' | 'path';
+
+export interface NodeInstallation {
+  source: NodeInstallationSource;
+  version: string;
+  binDirectory: string;
+  supported: boolean;  // Satisfies the Node.js requirement range
+  active: boolean;     // The node the launcher currently runs
+}
+
 export interface AuthResponse {
   success: boolean;
   user?: UserInfo;
@@ -29,13 +130,18 @@ declare global {
         logout: () => Promise<{ success: boolean }>;
         getUser: () => Promise<UserInfo | null>;
         onAuthStateChange: (callback: (user: UserInfo | null) => void) => void;
+        listAccounts: () => Promise<AccountSummary[]>;
+        switchAccount: (accountId: string) => Promise<AuthResponse>;
+        removeAccount: (accountId: string) => Promise<{ success: boolean }>;
       };
       bot: {
         start: () => Promise<{ success: boolean; error?: string }>;
         stop: () => Promise<{ success: boolean; error?: string }>;
         getStatus: () => Promise<BotStatus>;
         onStatusChange: (callback: (status: BotStatus) => void) => void;
-        getLogs: (lines?: number) => Promise<string[]>;
+        getLogs: (lines?: number, filter?: LogFilter) => Promise<string[]>;
+        onLogLine: (callback: (entry: LogEntry) => void) => void;
+        getRestartHistory: () => Promise<RestartRecord[]>;
       };
       system: {
         openExternal: (url: string) => Promise<void>;
@@ -0,0 +1,21 @@
+// Minimal typings for the parts of unzipper the launcher uses
+declare module 'unzipper' {
+  import { Readable } from 'stream';
+
+  export interface File {
+    path: string;
+    type: 'File' | 'Directory';
+    externalFileAttributes: number;
+    uncompressedSize: number;
+    stream(password?: string): Readable;
+    buffer(password?: string): Promise<Buffer>;
+  }
+
+  export interface CentralDirectory {
+    files: File[];
+  }
+
+  export const Open: {
+    file(filename: string): Promise<CentralDirectory>;
+  };
+}